@@ -0,0 +1,131 @@
+/**
+ * Configuration options for automatic token refresh
+ */
+export interface AuthOptions {
+  /** Returns the current token; called before every attempt */
+  getToken: () => string | Promise<string>;
+  /**
+   * Obtains a new token after the server rejected the current one. Should also
+   * store it where getToken reads from, since later requests call getToken.
+   */
+  refresh: () => Promise<string>;
+  /** Header the token is sent in (default: 'Authorization') */
+  header?: string;
+  /** Prefix before the token; empty string for none (default: 'Bearer') */
+  scheme?: string;
+  /** Decides whether a response means the token must be refreshed (default: status 401) */
+  shouldRefresh?: (response: Response) => boolean;
+}
+
+/**
+ * Refresh state shared by every request using the same AuthOptions object
+ */
+class AuthSession {
+  private refreshing: Promise<string> | undefined;
+  private lastStale: string | undefined;
+  private lastRefreshed: string | undefined;
+
+  constructor(private readonly options: AuthOptions) {}
+
+  /**
+   * Returns the token for a new request, waiting for any refresh in progress
+   */
+  async token(): Promise<string> {
+    if (this.refreshing) {
+      return this.refreshing;
+    }
+    return this.options.getToken();
+  }
+
+  /**
+   * Refreshes a rejected token. Concurrent callers share one refresh, and a
+   * token that has already been replaced is not refreshed again.
+   * @param stale - The token the server rejected
+   * @returns The token to replay the request with
+   */
+  async refresh(stale: string): Promise<string> {
+    if (this.refreshing) {
+      return this.refreshing;
+    }
+
+    if (stale === this.lastStale && this.lastRefreshed !== undefined) {
+      return this.lastRefreshed;
+    }
+
+    this.refreshing = this.options.refresh()
+      .then(token => {
+        this.lastStale = stale;
+        this.lastRefreshed = token;
+        return token;
+      })
+      .finally(() => {
+        this.refreshing = undefined;
+      });
+
+    return this.refreshing;
+  }
+}
+
+const sessions = new WeakMap<AuthOptions, AuthSession>();
+
+/**
+ * Returns the session for an AuthOptions object, creating it on first use
+ */
+const sessionFor = (options: AuthOptions): AuthSession => {
+  let session = sessions.get(options);
+  if (!session) {
+    session = new AuthSession(options);
+    sessions.set(options, session);
+  }
+  return session;
+};
+
+/**
+ * Returns request options carrying the token
+ */
+const withToken = (request: RequestInit, options: AuthOptions, token: string): RequestInit => {
+  const headers = new Headers(request.headers);
+  const scheme = options.scheme ?? 'Bearer';
+  headers.set(options.header ?? 'Authorization', scheme ? `${scheme} ${token}` : token);
+  return { ...request, headers };
+};
+
+/**
+ * Determines whether a response means the token must be refreshed
+ * @param response - The server's response
+ * @param options - Auth configuration
+ * @returns boolean indicating whether the credentials were rejected
+ */
+export const rejectsCredentials = (response: Response, options: AuthOptions): boolean =>
+  (options.shouldRefresh ?? ((res: Response) => res.status === 401))(response);
+
+/**
+ * Sends a request with credentials, refreshing them once and replaying the
+ * request when the server rejects them. The replay is part of the same
+ * attempt and does not count as a retry.
+ * @param request - Fetch options for this attempt
+ * @param options - Auth configuration
+ * @param send - Sends the request (through any attempt middleware)
+ * @param canReplay - Whether the request body can be sent again; when not, the rejection is returned as-is
+ * @returns The response to the original request or to the replay
+ */
+export const sendWithAuth = async (
+  request: RequestInit,
+  options: AuthOptions,
+  send: (request: RequestInit) => Promise<Response>,
+  canReplay: boolean = true
+): Promise<Response> => {
+  const session = sessionFor(options);
+  const token = await session.token();
+  const response = await send(withToken(request, options, token));
+
+  if (!canReplay || !rejectsCredentials(response, options)) {
+    return response;
+  }
+
+  // Free the connection held by the rejected response
+  await response.body?.cancel().catch(() => undefined);
+
+  const refreshed = await session.refresh(token);
+  return send(withToken(request, options, refreshed));
+};
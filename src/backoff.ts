@@ -0,0 +1,74 @@
+import { RetryConfig, BackoffStrategyName, BackoffFunction } from './types';
+
+/**
+ * Returns a random integer in the range [min, max]
+ */
+const randomBetween = (min: number, max: number): number =>
+  Math.floor(min + Math.random() * (max - min + 1));
+
+/**
+ * Returns the nth Fibonacci number (1, 1, 2, 3, 5, ...)
+ */
+const fibonacci = (n: number): number => {
+  let previous = 0;
+  let current = 1;
+  for (let i = 1; i < n; i++) {
+    [previous, current] = [current, previous + current];
+  }
+  return current;
+};
+
+/**
+ * Un-jittered exponential delay for an attempt, capped at maxDelay
+ */
+const exponentialDelay = (attempt: number, config: RetryConfig): number =>
+  Math.min(config.baseDelay * Math.pow(config.backoffMultiplier, attempt - 1), config.maxDelay);
+
+/**
+ * Built-in backoff strategies, keyed by name.
+ * The jitter variants follow the AWS Architecture Blog article
+ * "Exponential Backoff And Jitter".
+ */
+const STRATEGIES: Record<BackoffStrategyName, (attempt: number, config: RetryConfig, previousDelay: number) => number> = {
+  fixed: (_attempt, config) => config.baseDelay,
+  linear: (attempt, config) => config.baseDelay * attempt,
+  exponential: exponentialDelay,
+  'full-jitter': (attempt, config) => randomBetween(0, exponentialDelay(attempt, config)),
+  'equal-jitter': (attempt, config) => {
+    const half = exponentialDelay(attempt, config) / 2;
+    return Math.floor(half) + randomBetween(0, Math.ceil(half));
+  },
+  'decorrelated-jitter': (_attempt, config, previousDelay) =>
+    randomBetween(config.baseDelay, Math.max(config.baseDelay, (previousDelay || config.baseDelay) * 3)),
+  fibonacci: (attempt, config) => config.baseDelay * fibonacci(attempt)
+};
+
+/**
+ * Resolves the configured strategy, falling back to the `exponential` shorthand
+ * @param config - Retry configuration
+ * @returns Strategy name or custom function
+ */
+const resolveStrategy = (config: RetryConfig): BackoffStrategyName | BackoffFunction =>
+  config.backoff ?? (config.exponential ? 'exponential' : 'fixed');
+
+/**
+ * Calculates the delay for the current retry attempt
+ * @param attempt - Current attempt number (1-based)
+ * @param config - Retry configuration
+ * @param lastError - The error that caused this retry
+ * @param previousDelay - Delay used before the previous retry (0 on the first retry)
+ * @returns Delay in milliseconds, between 0 and maxDelay
+ */
+export const calculateDelay = (
+  attempt: number,
+  config: RetryConfig,
+  lastError: Error,
+  previousDelay: number
+): number => {
+  const strategy = resolveStrategy(config);
+  const delay = typeof strategy === 'function'
+    ? strategy(attempt, lastError, previousDelay)
+    : STRATEGIES[strategy](attempt, config, previousDelay);
+
+  return Math.max(0, Math.min(delay, config.maxDelay));
+};
@@ -0,0 +1,201 @@
+import { fetchWithRetry } from './fetchWithRetry';
+import { AbortError } from './errors';
+import { RetryBudget } from './retryBudget';
+import type { FetchWithRetryResult, RetryConfig } from './types';
+
+/**
+ * One request in a batch: a URL, or a URL with its own options
+ */
+export type BatchRequest<T = any> =
+  | string
+  | { url: string; options?: RequestInit; retryConfig?: Partial<RetryConfig<T>> };
+
+/**
+ * Settled outcome of one request, like `Promise.allSettled` entries
+ */
+export type BatchResult<T = any> =
+  | { status: 'fulfilled'; index: number; url: string; value: FetchWithRetryResult<T> }
+  | { status: 'rejected'; index: number; url: string; reason: Error };
+
+/**
+ * Progress of a batch, passed to `onProgress` after each request settles
+ */
+export interface BatchProgress {
+  total: number;
+  completed: number;
+  succeeded: number;
+  failed: number;
+}
+
+/**
+ * Configuration options for batch fetching
+ */
+export interface BatchOptions<T = any> {
+  /** Requests in flight at once (default: 6) */
+  concurrency?: number;
+  /** Stop starting requests and abort those in flight after the first failure (default: false) */
+  failFast?: boolean;
+  /** Cancels the whole batch; replaces the `signal` of individual requests */
+  signal?: AbortSignal;
+  /** Retry configuration for every request; a request's own `retryConfig` is merged over it */
+  retryConfig?: Partial<RetryConfig<T>>;
+  /**
+   * Retry budget shared by the batch, so a failing host cannot multiply the
+   * batch's traffic (default: `retryConfig.retryBudget`, or a new RetryBudget).
+   * Pass false to use no budget.
+   */
+  retryBudget?: RetryBudget | false;
+  /** Called after each request settles */
+  onProgress?: (progress: BatchProgress, result: BatchResult<T>) => void;
+  /** Fetches each request (default: fetchWithRetry), e.g. a createFetcher instance */
+  fetcher?: (url: string, options?: RequestInit, retryConfig?: Partial<RetryConfig<T>>) => Promise<FetchWithRetryResult<T>>;
+}
+
+/**
+ * Configuration options for streaming batch results
+ */
+export interface BatchStreamOptions<T = any> extends BatchOptions<T> {
+  /** Yield results in request order, or as each one settles (default: 'completion') */
+  order?: 'input' | 'completion';
+}
+
+/**
+ * Normalises a batch entry
+ */
+const toRequest = <T>(request: BatchRequest<T>): { url: string; options?: RequestInit; retryConfig?: Partial<RetryConfig<T>> } =>
+  typeof request === 'string' ? { url: request } : request;
+
+/**
+ * Fetches many requests with bounded concurrency, yielding a settled result
+ * for each. Failures never stop the batch unless `failFast` is set; requests
+ * skipped because of it settle as rejected with AbortError. Breaking out of
+ * the loop aborts the requests still in flight.
+ * @param requests - URLs, or URLs with options
+ * @param batchOptions - Concurrency, ordering, cancellation and retry settings
+ * @returns Async generator of settled results
+ * @throws {AbortError} When `signal` aborts
+ *
+ * @example
+ * for await (const result of streamAllWithRetry(urls, { concurrency: 4 })) {
+ *   if (result.status === 'fulfilled') save(result.value.data);
+ * }
+ */
+export async function* streamAllWithRetry<T = any>(
+  requests: BatchRequest<T>[],
+  batchOptions: BatchStreamOptions<T> = {}
+): AsyncGenerator<BatchResult<T>, void, undefined> {
+  const { concurrency = 6, failFast = false, signal, order = 'completion', onProgress } = batchOptions;
+  const fetcher = batchOptions.fetcher ?? fetchWithRetry;
+  const retryBudget = batchOptions.retryBudget === false
+    ? undefined
+    : batchOptions.retryBudget ?? batchOptions.retryConfig?.retryBudget ?? new RetryBudget();
+
+  const controller = new AbortController();
+  const onAbort = () => controller.abort(signal?.reason);
+  signal?.addEventListener('abort', onAbort, { once: true });
+  if (signal?.aborted) {
+    controller.abort(signal.reason);
+  }
+
+  const progress: BatchProgress = { total: requests.length, completed: 0, succeeded: 0, failed: 0 };
+  const settled: BatchResult<T>[] = [];
+  let wake: (() => void) | undefined;
+  let nextIndex = 0;
+
+  const settle = (result: BatchResult<T>): void => {
+    progress.completed++;
+    if (result.status === 'fulfilled') {
+      progress.succeeded++;
+    } else {
+      progress.failed++;
+      if (failFast && !controller.signal.aborted) {
+        controller.abort(result.reason);
+      }
+    }
+
+    onProgress?.({ ...progress }, result);
+    settled.push(result);
+    wake?.();
+  };
+
+  const worker = async (): Promise<void> => {
+    while (nextIndex < requests.length) {
+      const index = nextIndex++;
+      const { url, options, retryConfig } = toRequest(requests[index]);
+
+      if (controller.signal.aborted) {
+        settle({ status: 'rejected', index, url, reason: new AbortError(`Request to ${url} was not sent: the batch was stopped`) });
+        continue;
+      }
+
+      try {
+        const value = await fetcher(
+          url,
+          { ...options, signal: controller.signal },
+          { ...batchOptions.retryConfig, ...retryConfig, ...(retryBudget ? { retryBudget } : {}) }
+        );
+        settle({ status: 'fulfilled', index, url, value });
+      } catch (error) {
+        settle({ status: 'rejected', index, url, reason: error instanceof Error ? error : new Error(String(error)) });
+      }
+    }
+  };
+
+  const workers = Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, requests.length)) }, worker));
+  let yielded = 0;
+
+  try {
+    while (yielded < requests.length) {
+      if (signal?.aborted) {
+        throw new AbortError('Batch was aborted', signal.reason);
+      }
+
+      const ready = order === 'input'
+        ? settled.find(result => result.index === yielded)
+        : settled.shift();
+
+      if (!ready) {
+        await new Promise<void>(resolve => {
+          wake = resolve;
+        });
+        wake = undefined;
+        continue;
+      }
+
+      if (order === 'input') {
+        settled.splice(settled.indexOf(ready), 1);
+      }
+      yielded++;
+      yield ready;
+    }
+  } finally {
+    // Stops the remaining requests when the consumer breaks out early
+    controller.abort();
+    signal?.removeEventListener('abort', onAbort);
+    await workers;
+  }
+}
+
+/**
+ * Fetches many requests with bounded concurrency and returns a settled
+ * result for each, in request order. Unlike `Promise.all`, one request
+ * running out of retries does not fail the others.
+ * @param requests - URLs, or URLs with options
+ * @param batchOptions - Concurrency, cancellation and retry settings
+ * @returns Settled results, in the order of `requests`
+ * @throws {AbortError} When `signal` aborts
+ *
+ * @example
+ * const results = await fetchAllWithRetry(urls, { concurrency: 4, onProgress: ({ completed, total }) => bar.update(completed / total) });
+ * const data = results.flatMap(result => (result.status === 'fulfilled' ? [result.value.data] : []));
+ */
+export async function fetchAllWithRetry<T = any>(
+  requests: BatchRequest<T>[],
+  batchOptions: BatchOptions<T> = {}
+): Promise<BatchResult<T>[]> {
+  const results: BatchResult<T>[] = [];
+  for await (const result of streamAllWithRetry(requests, { ...batchOptions, order: 'completion' })) {
+    results[result.index] = result;
+  }
+  return results;
+}
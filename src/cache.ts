@@ -0,0 +1,331 @@
+import { Clock, systemClock } from './clock';
+import { hashHeaders, resultShapeKey } from './requestKey';
+import type { RetryConfig } from './types';
+
+/**
+ * A cached response body and the HTTP metadata needed to reuse it
+ */
+export interface CacheEntry {
+  /** Parsed (and validated) response data */
+  data: unknown;
+  /** When the response was stored or last revalidated, in milliseconds since the epoch */
+  storedAt: number;
+  /** How long after `storedAt` the entry is fresh, in milliseconds */
+  maxAge: number;
+  /** Window after expiry in which the entry may be served while revalidating in the background */
+  staleWhileRevalidate: number;
+  /** Window after expiry in which the entry may be served when every attempt fails */
+  staleIfError: number;
+  /** `ETag` validator, sent back as `If-None-Match` */
+  etag?: string;
+  /** `Last-Modified` validator, sent back as `If-Modified-Since` */
+  lastModified?: string;
+}
+
+/**
+ * Maps a request, and the configuration it is fetched with, to its cache key
+ */
+export type CacheKeyFunction = (url: string, options: RequestInit, config?: Partial<RetryConfig>) => string;
+
+/**
+ * Storage backend for cache entries. Methods may be synchronous or async,
+ * so entries can live in memory, Redis, IndexedDB and so on.
+ */
+export interface CacheStore {
+  get(key: string): CacheEntry | undefined | Promise<CacheEntry | undefined>;
+  set(key: string, entry: CacheEntry): void | Promise<void>;
+  delete(key: string): void | Promise<void>;
+}
+
+/**
+ * Configuration options for the response cache
+ */
+export interface ResponseCacheOptions {
+  /** Where entries are kept (default: an in-memory LRU of 500 entries) */
+  store: CacheStore;
+  /** Freshness in milliseconds for responses without `Cache-Control`/`Expires` (default: 0) */
+  defaultMaxAge: number;
+  /** Key function (default: method, URL, headers and the config that shapes the result) */
+  key: CacheKeyFunction;
+  /** Time source for entry ages (default: the system clock) */
+  clock: Clock;
+}
+
+/**
+ * Parsed `Cache-Control` directives we act on
+ */
+interface CacheDirectives {
+  noStore: boolean;
+  noCache: boolean;
+  maxAge?: number;
+  staleWhileRevalidate?: number;
+  staleIfError?: number;
+}
+
+/**
+ * In-memory store that evicts the least recently used entry when full
+ */
+export class MemoryCacheStore implements CacheStore {
+  private readonly entries = new Map<string, CacheEntry>();
+
+  constructor(private readonly maxEntries: number = 500) {}
+
+  get(key: string): CacheEntry | undefined {
+    const entry = this.entries.get(key);
+    if (entry) {
+      // Re-insert to mark as most recently used
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+    }
+    return entry;
+  }
+
+  set(key: string, entry: CacheEntry): void {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  delete(key: string): void {
+    this.entries.delete(key);
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+}
+
+/**
+ * Parses the `Cache-Control` directives relevant to a private client cache
+ * @param header - Cache-Control header value, if any
+ * @returns Parsed directives; durations in milliseconds
+ */
+const parseCacheControl = (header: string | null): CacheDirectives => {
+  const directives: CacheDirectives = { noStore: false, noCache: false };
+
+  for (const part of (header ?? '').split(',')) {
+    const [rawName, rawValue] = part.split('=');
+    const name = rawName?.trim().toLowerCase();
+    const seconds = rawValue !== undefined ? parseInt(rawValue.trim().replace(/"/g, ''), 10) : NaN;
+    const ms = Number.isNaN(seconds) ? undefined : seconds * 1000;
+
+    switch (name) {
+      case 'no-store':
+        directives.noStore = true;
+        break;
+      case 'no-cache':
+        directives.noCache = true;
+        break;
+      case 'max-age':
+        if (ms !== undefined) directives.maxAge = ms;
+        break;
+      case 'stale-while-revalidate':
+        if (ms !== undefined) directives.staleWhileRevalidate = ms;
+        break;
+      case 'stale-if-error':
+        if (ms !== undefined) directives.staleIfError = ms;
+        break;
+    }
+  }
+
+  return directives;
+};
+
+/**
+ * Default key: method, URL, request headers, and the parts of the
+ * configuration that shape the result (responseType, validate, fetch, auth,
+ * middleware), so an entry is only served to calls that would have fetched
+ * the same data
+ * @param url - The URL being fetched
+ * @param options - Fetch options
+ * @param config - Retry configuration of the call
+ * @returns Cache key
+ */
+export const defaultCacheKey: CacheKeyFunction = (url, options, config = {}) =>
+  [(options.method ?? 'GET').toUpperCase(), url, hashHeaders(options.headers), resultShapeKey(config)].join(' ');
+
+/**
+ * HTTP-aware cache for parsed response data. Follows `Cache-Control`
+ * max-age/no-store/no-cache, revalidates with `ETag`/`Last-Modified`, and
+ * supports stale-while-revalidate and stale-if-error.
+ */
+export class ResponseCache {
+  public readonly options: ResponseCacheOptions;
+  private readonly revalidating = new Set<string>();
+
+  constructor(options: Partial<ResponseCacheOptions> = {}) {
+    this.options = {
+      store: new MemoryCacheStore(),
+      defaultMaxAge: 0,
+      key: defaultCacheKey,
+      clock: systemClock,
+      ...options
+    };
+  }
+
+  /**
+   * Returns the cache key for a request
+   * @param url - The URL being fetched
+   * @param options - Fetch options
+   * @param config - Retry configuration of the call, passed to the key function
+   */
+  keyFor(url: string, options: RequestInit, config?: Partial<RetryConfig>): string {
+    return this.options.key(url, options, config);
+  }
+
+  /**
+   * Looks up an entry
+   */
+  async get(key: string): Promise<CacheEntry | undefined> {
+    return this.options.store.get(key);
+  }
+
+  /**
+   * Removes an entry
+   */
+  async delete(key: string): Promise<void> {
+    await this.options.store.delete(key);
+  }
+
+  /**
+   * Age of an entry in milliseconds
+   */
+  age(entry: CacheEntry, now: number = this.options.clock.now()): number {
+    return Math.max(0, now - entry.storedAt);
+  }
+
+  /**
+   * Whether an entry can be served without contacting the server
+   */
+  isFresh(entry: CacheEntry, now: number = this.options.clock.now()): boolean {
+    return this.age(entry, now) < entry.maxAge;
+  }
+
+  /**
+   * Whether a stale entry may be served while it is revalidated in the background
+   */
+  canServeWhileRevalidating(entry: CacheEntry, now: number = this.options.clock.now()): boolean {
+    return this.age(entry, now) < entry.maxAge + entry.staleWhileRevalidate;
+  }
+
+  /**
+   * Whether a stale entry may be served because the server could not be reached
+   */
+  canServeOnError(entry: CacheEntry, now: number = this.options.clock.now()): boolean {
+    return this.age(entry, now) < entry.maxAge + entry.staleIfError;
+  }
+
+  /**
+   * Adds `If-None-Match` / `If-Modified-Since` for an entry to the request
+   * @param options - Fetch options
+   * @param entry - Cached entry being revalidated
+   * @returns Fetch options with conditional headers
+   */
+  withConditionalHeaders(options: RequestInit, entry: CacheEntry): RequestInit {
+    if (entry.etag === undefined && entry.lastModified === undefined) {
+      return options;
+    }
+
+    const headers = new Headers(options.headers);
+    if (entry.etag !== undefined) {
+      headers.set('If-None-Match', entry.etag);
+    }
+    if (entry.lastModified !== undefined) {
+      headers.set('If-Modified-Since', entry.lastModified);
+    }
+    return { ...options, headers };
+  }
+
+  /**
+   * Stores the data from a successful response, as its headers allow
+   * @param key - Cache key
+   * @param response - The response the data came from
+   * @param data - Parsed response data
+   */
+  async store(key: string, response: Response, data: unknown): Promise<void> {
+    const headers = response.headers ?? new Headers();
+    const directives = parseCacheControl(headers.get('cache-control'));
+
+    if (directives.noStore) {
+      await this.options.store.delete(key);
+      return;
+    }
+
+    const entry = this.createEntry(headers, directives, data);
+
+    // Nothing to gain from an entry that is never fresh and cannot be revalidated
+    const reusable = entry.maxAge > 0 || entry.staleIfError > 0 || entry.staleWhileRevalidate > 0;
+    if (!reusable && entry.etag === undefined && entry.lastModified === undefined) {
+      return;
+    }
+
+    await this.options.store.set(key, entry);
+  }
+
+  /**
+   * Refreshes an entry after a 304 Not Modified response
+   * @param key - Cache key
+   * @param entry - The entry that was revalidated
+   * @param response - The 304 response
+   * @returns The refreshed entry
+   */
+  async refresh(key: string, entry: CacheEntry, response: Response): Promise<CacheEntry> {
+    const headers = response.headers ?? new Headers();
+    const directives = parseCacheControl(headers.get('cache-control'));
+    const refreshed = {
+      ...this.createEntry(headers, directives, entry.data),
+      ...(entry.etag !== undefined && !headers.has('etag') ? { etag: entry.etag } : {}),
+      ...(entry.lastModified !== undefined && !headers.has('last-modified') ? { lastModified: entry.lastModified } : {})
+    };
+
+    await this.options.store.set(key, refreshed);
+    return refreshed;
+  }
+
+  /**
+   * Runs a background revalidation unless one is already running for the key
+   * @param key - Cache key
+   * @param task - Performs the conditional request
+   */
+  revalidateInBackground(key: string, task: () => Promise<unknown>): void {
+    if (this.revalidating.has(key)) {
+      return;
+    }
+
+    this.revalidating.add(key);
+    task()
+      .catch(() => undefined)
+      .finally(() => this.revalidating.delete(key));
+  }
+
+  private createEntry(headers: Headers, directives: CacheDirectives, data: unknown): CacheEntry {
+    const now = this.options.clock.now();
+    const etag = headers.get('etag');
+    const lastModified = headers.get('last-modified');
+
+    let maxAge = directives.maxAge;
+    if (maxAge === undefined) {
+      const expires = Date.parse(headers.get('expires') ?? '');
+      maxAge = Number.isNaN(expires) ? this.options.defaultMaxAge : Math.max(0, expires - now);
+    }
+
+    return {
+      data,
+      storedAt: now,
+      maxAge: directives.noCache ? 0 : maxAge,
+      staleWhileRevalidate: directives.noCache ? 0 : directives.staleWhileRevalidate ?? 0,
+      staleIfError: directives.staleIfError ?? 0,
+      ...(etag !== null ? { etag } : {}),
+      ...(lastModified !== null ? { lastModified } : {})
+    };
+  }
+}
+
+/**
+ * Cache used when `cache: true` is passed to fetchWithRetry instead of an instance
+ */
+export const defaultResponseCache = new ResponseCache();
@@ -0,0 +1,270 @@
+import { Clock, systemClock } from './clock';
+import { originOf } from './url';
+
+/**
+ * State of a circuit
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Configuration options for the circuit breaker
+ */
+export interface CircuitBreakerOptions {
+  /** Consecutive failures that open the circuit (default: 5) */
+  failureThreshold: number;
+  /** Failure ratio (0-1) over the recent window that opens the circuit; disabled when unset */
+  failureRateThreshold?: number;
+  /** Number of recent outcomes kept for the failure-rate check (default: 20) */
+  windowSize: number;
+  /** Minimum outcomes in the window before the failure rate is evaluated (default: 10) */
+  minimumRequests: number;
+  /** Milliseconds the circuit stays open before allowing trial requests (default: 30000) */
+  cooldown: number;
+  /** Trial requests allowed while half-open; all must succeed to close the circuit (default: 1) */
+  halfOpenMaxTrials: number;
+  /** Maps a URL to the circuit that guards it (default: the URL's origin) */
+  key: (url: string) => string;
+  /** Time source for cooldowns (default: the system clock) */
+  clock: Clock;
+}
+
+/**
+ * Point-in-time view of one circuit
+ */
+export interface CircuitSnapshot {
+  key: string;
+  state: CircuitState;
+  /** Failures in a row since the last success */
+  consecutiveFailures: number;
+  /** Failure ratio over the recent window (0-1) */
+  failureRate: number;
+  /** When the circuit last opened, in milliseconds since the epoch */
+  openedAt?: number;
+  /** When an open circuit will start letting trial requests through */
+  retryAt?: number;
+}
+
+/**
+ * Mutable per-key state
+ */
+interface Circuit {
+  state: CircuitState;
+  consecutiveFailures: number;
+  outcomes: boolean[];
+  openedAt: number;
+  trialsInFlight: number;
+  trialSuccesses: number;
+}
+
+/**
+ * Default circuit breaker configuration
+ */
+const DEFAULT_CIRCUIT_BREAKER_OPTIONS: CircuitBreakerOptions = {
+  failureThreshold: 5,
+  windowSize: 20,
+  minimumRequests: 10,
+  cooldown: 30000,
+  halfOpenMaxTrials: 1,
+  key: originOf,
+  clock: systemClock
+};
+
+/**
+ * Circuit breaker with one circuit per key (per origin by default).
+ * Pass the same instance to several fetchers to share state between them.
+ */
+export class CircuitBreaker {
+  public readonly options: CircuitBreakerOptions;
+  private readonly circuits = new Map<string, Circuit>();
+
+  constructor(options: Partial<CircuitBreakerOptions> = {}) {
+    this.options = { ...DEFAULT_CIRCUIT_BREAKER_OPTIONS, ...options };
+  }
+
+  /**
+   * Returns the circuit key for a URL
+   */
+  keyFor(url: string): string {
+    return this.options.key(url);
+  }
+
+  /**
+   * Returns the current state of a circuit
+   */
+  getState(key: string): CircuitState {
+    return this.refresh(this.circuit(key)).state;
+  }
+
+  /**
+   * Asks permission to send a request. While half-open, only a limited
+   * number of trial requests are let through.
+   * @param key - Circuit key
+   * @returns Whether the request may proceed
+   */
+  tryAcquire(key: string): boolean {
+    const circuit = this.refresh(this.circuit(key));
+
+    if (circuit.state === 'closed') {
+      return true;
+    }
+
+    if (circuit.state === 'half-open' && circuit.trialsInFlight + circuit.trialSuccesses < this.options.halfOpenMaxTrials) {
+      circuit.trialsInFlight++;
+      return true;
+    }
+
+    return false;
+  }
+
+  /**
+   * Records a successful request
+   */
+  recordSuccess(key: string): void {
+    const circuit = this.circuit(key);
+    circuit.consecutiveFailures = 0;
+    this.pushOutcome(circuit, true);
+
+    if (circuit.state === 'half-open') {
+      circuit.trialsInFlight = Math.max(0, circuit.trialsInFlight - 1);
+      circuit.trialSuccesses++;
+      if (circuit.trialSuccesses >= this.options.halfOpenMaxTrials) {
+        this.close(circuit);
+      }
+    }
+  }
+
+  /**
+   * Records a failed request, opening the circuit when a threshold is crossed
+   */
+  recordFailure(key: string): void {
+    const circuit = this.circuit(key);
+    circuit.consecutiveFailures++;
+    this.pushOutcome(circuit, false);
+
+    if (circuit.state === 'half-open' || this.shouldOpen(circuit)) {
+      this.open(circuit);
+    }
+  }
+
+  /**
+   * Releases a half-open trial slot without recording an outcome,
+   * e.g. when the caller aborted the request
+   */
+  release(key: string): void {
+    const circuit = this.circuit(key);
+    if (circuit.state === 'half-open') {
+      circuit.trialsInFlight = Math.max(0, circuit.trialsInFlight - 1);
+    }
+  }
+
+  /**
+   * Returns when an open circuit will next let a request through
+   */
+  retryAt(key: string): number {
+    return this.circuit(key).openedAt + this.options.cooldown;
+  }
+
+  /**
+   * Returns a snapshot of one circuit, or of every known circuit
+   */
+  snapshot(key: string): CircuitSnapshot;
+  snapshot(): CircuitSnapshot[];
+  snapshot(key?: string): CircuitSnapshot | CircuitSnapshot[] {
+    if (key !== undefined) {
+      return this.describe(key, this.refresh(this.circuit(key)));
+    }
+    return [...this.circuits.entries()].map(([k, circuit]) => this.describe(k, this.refresh(circuit)));
+  }
+
+  /**
+   * Forgets the state of one circuit, or of all circuits
+   */
+  reset(key?: string): void {
+    if (key !== undefined) {
+      this.circuits.delete(key);
+    } else {
+      this.circuits.clear();
+    }
+  }
+
+  private circuit(key: string): Circuit {
+    let circuit = this.circuits.get(key);
+    if (!circuit) {
+      circuit = {
+        state: 'closed',
+        consecutiveFailures: 0,
+        outcomes: [],
+        openedAt: 0,
+        trialsInFlight: 0,
+        trialSuccesses: 0
+      };
+      this.circuits.set(key, circuit);
+    }
+    return circuit;
+  }
+
+  /**
+   * Moves an open circuit to half-open once its cooldown has elapsed
+   */
+  private refresh(circuit: Circuit): Circuit {
+    if (circuit.state === 'open' && this.options.clock.now() - circuit.openedAt >= this.options.cooldown) {
+      circuit.state = 'half-open';
+      circuit.trialsInFlight = 0;
+      circuit.trialSuccesses = 0;
+    }
+    return circuit;
+  }
+
+  private pushOutcome(circuit: Circuit, success: boolean): void {
+    circuit.outcomes.push(success);
+    if (circuit.outcomes.length > this.options.windowSize) {
+      circuit.outcomes.shift();
+    }
+  }
+
+  private failureRate(circuit: Circuit): number {
+    if (circuit.outcomes.length === 0) {
+      return 0;
+    }
+    return circuit.outcomes.filter(success => !success).length / circuit.outcomes.length;
+  }
+
+  private shouldOpen(circuit: Circuit): boolean {
+    if (circuit.state !== 'closed') {
+      return false;
+    }
+
+    if (this.options.failureRateThreshold !== undefined) {
+      return circuit.outcomes.length >= this.options.minimumRequests
+        && this.failureRate(circuit) >= this.options.failureRateThreshold;
+    }
+
+    return circuit.consecutiveFailures >= this.options.failureThreshold;
+  }
+
+  private open(circuit: Circuit): void {
+    circuit.state = 'open';
+    circuit.openedAt = this.options.clock.now();
+    circuit.trialsInFlight = 0;
+    circuit.trialSuccesses = 0;
+  }
+
+  private close(circuit: Circuit): void {
+    circuit.state = 'closed';
+    circuit.consecutiveFailures = 0;
+    circuit.outcomes = [];
+    circuit.trialsInFlight = 0;
+    circuit.trialSuccesses = 0;
+  }
+
+  private describe(key: string, circuit: Circuit): CircuitSnapshot {
+    return {
+      key,
+      state: circuit.state,
+      consecutiveFailures: circuit.consecutiveFailures,
+      failureRate: this.failureRate(circuit),
+      ...(circuit.openedAt ? { openedAt: circuit.openedAt } : {}),
+      ...(circuit.state === 'open' ? { retryAt: circuit.openedAt + this.options.cooldown } : {})
+    };
+  }
+}
@@ -0,0 +1,135 @@
+import { delay } from './signals';
+
+/**
+ * Source of time and timers. Every time-dependent part of the library reads
+ * the time and schedules work through one of these, so tests can swap in a
+ * VirtualClock instead of waiting.
+ */
+export interface Clock {
+  /** Current time in milliseconds since the epoch */
+  now(): number;
+  /** Waits `ms` milliseconds; rejects with AbortError when the signal aborts */
+  sleep(ms: number, signal?: AbortSignal | null): Promise<void>;
+  /** Schedules a callback, returning a handle for clearTimeout */
+  setTimeout(callback: () => void, ms: number): unknown;
+  /** Cancels a scheduled callback; ignores unknown or undefined handles */
+  clearTimeout(handle: unknown): void;
+}
+
+/**
+ * Clock backed by `Date.now` and the global timers
+ */
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  sleep: (ms, signal) => delay(ms, signal, systemClock),
+  setTimeout: (callback, ms) => setTimeout(callback, ms),
+  clearTimeout: handle => clearTimeout(handle as ReturnType<typeof setTimeout> | undefined)
+};
+
+/**
+ * A scheduled virtual timer
+ */
+interface VirtualTimer {
+  id: number;
+  at: number;
+  callback: () => void;
+}
+
+/**
+ * Lets promise continuations (and anything they schedule) run before the
+ * next timer fires
+ */
+const flush = async (): Promise<void> => {
+  for (let i = 0; i < 5; i++) {
+    await new Promise<void>(resolve => setImmediate(resolve));
+  }
+};
+
+/**
+ * Clock whose time only moves when advanced. Timers fire in due order as
+ * time passes them, with pending promise work flushed between timers.
+ *
+ * @example
+ * const clock = new VirtualClock();
+ * const call = fetchWithRetry(url, {}, { clock, fetch: mockFetch, baseDelay: 1000 });
+ * await clock.runAll();
+ * (await call).duration; // exactly the backoff delays that were scheduled
+ */
+export class VirtualClock implements Clock {
+  private current: number;
+  private timers: VirtualTimer[] = [];
+  private nextId = 1;
+
+  /**
+   * @param start - Initial time in milliseconds since the epoch (default: 0)
+   */
+  constructor(start: number = 0) {
+    this.current = start;
+  }
+
+  now(): number {
+    return this.current;
+  }
+
+  sleep(ms: number, signal?: AbortSignal | null): Promise<void> {
+    return delay(ms, signal, this);
+  }
+
+  setTimeout(callback: () => void, ms: number): number {
+    const id = this.nextId++;
+    this.timers.push({ id, at: this.current + Math.max(0, ms), callback });
+    return id;
+  }
+
+  clearTimeout(handle: unknown): void {
+    this.timers = this.timers.filter(timer => timer.id !== handle);
+  }
+
+  /**
+   * Number of timers waiting to fire
+   */
+  get pending(): number {
+    return this.timers.length;
+  }
+
+  /**
+   * Moves time forward, firing every timer that falls due on the way,
+   * including timers scheduled by earlier ones
+   * @param ms - Milliseconds to advance
+   */
+  async advance(ms: number): Promise<void> {
+    const target = this.current + ms;
+    await flush();
+
+    for (let timer = this.nextDue(target); timer; timer = this.nextDue(target)) {
+      this.current = timer.at;
+      this.clearTimeout(timer.id);
+      timer.callback();
+      await flush();
+    }
+
+    this.current = target;
+  }
+
+  /**
+   * Fires timers in order until none are left
+   * @param limit - Maximum timers to fire, guarding against timers that reschedule forever (default: 1000)
+   * @throws {Error} When the limit is reached with timers still pending
+   */
+  async runAll(limit: number = 1000): Promise<void> {
+    await flush();
+
+    for (let fired = 0; this.timers.length > 0; fired++) {
+      if (fired >= limit) {
+        throw new Error(`VirtualClock.runAll fired ${limit} timers and timers are still pending`);
+      }
+      await this.advance(Math.min(...this.timers.map(timer => timer.at)) - this.current);
+    }
+  }
+
+  private nextDue(target: number): VirtualTimer | undefined {
+    return this.timers
+      .filter(timer => timer.at <= target)
+      .reduce<VirtualTimer | undefined>((earliest, timer) => (!earliest || timer.at < earliest.at ? timer : earliest), undefined);
+  }
+}
@@ -0,0 +1,339 @@
+import { createHash, Hash } from 'node:crypto';
+import { open } from 'node:fs/promises';
+import { fetchWithRetry } from './fetchWithRetry';
+import { AbortError, ChecksumError, DownloadError, HttpError, MaxRetriesError, NetworkError, TimeoutError } from './errors';
+import { classifyFetchError } from './networkErrors';
+import { writeLog } from './logger';
+import { DEFAULT_RETRY_CONFIG, RetryConfig } from './types';
+
+/**
+ * Where downloaded bytes go
+ */
+export interface DownloadSink {
+  /** Appends a chunk */
+  write(chunk: Uint8Array): Promise<void> | void;
+  /** Discards everything written so far; needed when the server cannot resume and the download starts over */
+  reset?(): Promise<void> | void;
+  /** Called once when the download finishes or fails */
+  close?(): Promise<void> | void;
+}
+
+/**
+ * Passed to `onProgress` after each chunk
+ */
+export interface DownloadProgress {
+  /** Bytes received so far */
+  received: number;
+  /** Total size, when the server reported it */
+  total?: number;
+}
+
+/**
+ * Configuration options for downloadWithRetry
+ */
+export interface DownloadOptions {
+  /** File path to write to (created or truncated), or a custom sink */
+  destination: string | DownloadSink;
+  /** Fetch options (headers, signal) */
+  options?: RequestInit;
+  /**
+   * Retry configuration for each request; `responseType` is always 'response'.
+   * `timeout` also limits how long each read of the body may stall, and
+   * `deadline` covers the whole download, resumes included.
+   */
+  retryConfig?: Partial<RetryConfig<Response>>;
+  /** Expected sha256 of the whole file, hex-encoded */
+  sha256?: string;
+  /** Times a download interrupted mid-body may be resumed (default: 5) */
+  maxResumes?: number;
+  onProgress?: (progress: DownloadProgress) => void;
+}
+
+/**
+ * Outcome of a completed download
+ */
+export interface DownloadResult {
+  /** Bytes written */
+  bytes: number;
+  /** sha256 of the bytes written, hex-encoded */
+  sha256: string;
+  /** Requests made, retries included */
+  attempts: number;
+  /** Times the download continued from where it was interrupted */
+  resumes: number;
+  /** Times it started over from byte zero because the server could not resume */
+  restarts: number;
+  /** Duration in milliseconds */
+  duration: number;
+  /** ETag of the downloaded entity, if the server sent one */
+  etag?: string;
+}
+
+/**
+ * The entity being downloaded, as identified by the first response
+ */
+interface Entity {
+  total: number | undefined;
+  etag: string | undefined;
+  /** Value for `If-Range`: a strong ETag, else Last-Modified */
+  ifRange: string | undefined;
+}
+
+/**
+ * Sink that writes to a file, truncating it on reset
+ * @param path - File path; created or truncated
+ * @returns File sink
+ */
+const openFileSink = async (path: string): Promise<DownloadSink> => {
+  const handle = await open(path, 'w');
+  let position = 0;
+
+  return {
+    write: async chunk => {
+      await handle.write(chunk, 0, chunk.length, position);
+      position += chunk.length;
+    },
+    reset: async () => {
+      await handle.truncate(0);
+      position = 0;
+    },
+    close: () => handle.close()
+  };
+};
+
+/**
+ * Reads the entity identity and size from a full (200) response
+ */
+const entityOf = (response: Response): Entity => {
+  const etag = response.headers.get('etag') ?? undefined;
+  const length = response.headers.get('content-length');
+  const strongEtag = etag !== undefined && !etag.startsWith('W/') ? etag : undefined;
+
+  return {
+    total: length !== null ? Number(length) : undefined,
+    etag,
+    ifRange: strongEtag ?? response.headers.get('last-modified') ?? undefined
+  };
+};
+
+/**
+ * Checks that a 206 response continues the same entity at the expected offset
+ * @param response - Partial content response
+ * @param entity - The entity being downloaded
+ * @param received - Bytes already received
+ * @returns Whether the response can be appended
+ */
+const continuesEntity = (response: Response, entity: Entity, received: number): boolean => {
+  const range = /^bytes (\d+)-\d+\/(\d+|\*)$/.exec(response.headers.get('content-range') ?? '');
+  if (!range || Number(range[1]) !== received) {
+    return false;
+  }
+  if (entity.total !== undefined && range[2] !== '*' && Number(range[2]) !== entity.total) {
+    return false;
+  }
+
+  const etag = response.headers.get('etag');
+  return entity.etag === undefined || etag === null || etag === entity.etag;
+};
+
+/**
+ * Downloads a URL to a file or sink, streaming the body instead of parsing
+ * it. Each request is retried by fetchWithRetry; when the connection drops
+ * mid-body, the download resumes with `Range`/`If-Range` from the bytes
+ * already written. A server that ignores ranges, or whose ETag changed,
+ * causes a restart from byte zero. A body that stalls for longer than
+ * `retryConfig.timeout` counts as interrupted and is resumed the same way.
+ * @param url - The URL to download
+ * @param downloadOptions - Destination, checksum and retry settings
+ * @returns Size, checksum and retry metadata
+ * @throws {MaxRetriesError} When a request fails after its retries, interruptions exceed `maxResumes`, or the deadline passes
+ * @throws {ChecksumError} When `sha256` is given and does not match
+ * @throws {DownloadError} When a restart is needed but the sink has no `reset`
+ * @throws {AbortError} When the caller's signal aborts
+ *
+ * @example
+ * const { bytes, resumes } = await downloadWithRetry('https://example.com/big.iso', {
+ *   destination: '/tmp/big.iso',
+ *   sha256: 'e3b0c442...',
+ *   onProgress: ({ received, total }) => console.log(received, total)
+ * });
+ */
+export async function downloadWithRetry(url: string, downloadOptions: DownloadOptions): Promise<DownloadResult> {
+  const { destination, options = {}, retryConfig = {}, maxResumes = 5, onProgress } = downloadOptions;
+  const clock = retryConfig.clock ?? DEFAULT_RETRY_CONFIG.clock;
+  const logger = retryConfig.logger ?? DEFAULT_RETRY_CONFIG.logger;
+  const signal = options.signal;
+  const { timeout, deadline } = retryConfig;
+  const startTime = clock.now();
+  const deadlineAt = deadline !== undefined ? startTime + deadline : undefined;
+  const sink = typeof destination === 'string' ? await openFileSink(destination) : destination;
+
+  let hash: Hash = createHash('sha256');
+  let entity: Entity | undefined;
+  let received = 0;
+  let attempts = 0;
+  let resumes = 0;
+  let restarts = 0;
+  let interruptions = 0;
+
+  const restart = async (): Promise<void> => {
+    if (!sink.reset) {
+      throw new DownloadError(url, 'the server cannot resume and the sink cannot be reset', received);
+    }
+    writeLog(logger, 'warn', `⚠️ Cannot resume ${url} at byte ${received}; starting over`, { url, received });
+    await sink.reset();
+    hash = createHash('sha256');
+    entity = undefined;
+    received = 0;
+    restarts++;
+  };
+
+  /**
+   * Reads the next chunk, failing with TimeoutError when it takes longer
+   * than the timeout or the time left before the deadline
+   */
+  const read = (reader: ReadableStreamDefaultReader<Uint8Array>): Promise<ReadableStreamReadResult<Uint8Array>> => {
+    const remaining = deadlineAt !== undefined ? Math.max(0, deadlineAt - clock.now()) : undefined;
+    const deadlineIsCloser = remaining !== undefined && (timeout === undefined || remaining < timeout);
+    const limit = deadlineIsCloser ? remaining : timeout;
+
+    if (limit === undefined) {
+      return reader.read();
+    }
+
+    return new Promise((resolve, reject) => {
+      const timer = clock.setTimeout(() => {
+        reader.cancel().catch(() => undefined);
+        reject(deadlineIsCloser ? new TimeoutError(url, deadline, 'deadline') : new TimeoutError(url, timeout, 'attempt'));
+      }, limit);
+
+      reader.read().then(resolve, reject).finally(() => clock.clearTimeout(timer));
+    });
+  };
+
+  const pipe = async (response: Response): Promise<void> => {
+    const reader = response.body?.getReader();
+    if (!reader) {
+      return;
+    }
+
+    const onAbort = () => {
+      reader.cancel().catch(() => undefined);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    try {
+      for (;;) {
+        const { done, value } = await read(reader);
+        if (signal?.aborted) {
+          throw new AbortError(`Request to ${url} was aborted`, signal.reason);
+        }
+        if (done) {
+          return;
+        }
+        hash.update(value);
+        await sink.write(value);
+        received += value.length;
+        onProgress?.({ received, ...(entity?.total !== undefined ? { total: entity.total } : {}) });
+      }
+    } finally {
+      signal?.removeEventListener('abort', onAbort);
+    }
+  };
+
+  try {
+    for (;;) {
+      const remaining = deadlineAt !== undefined ? deadlineAt - clock.now() : undefined;
+      if (remaining !== undefined && remaining <= 0) {
+        throw new MaxRetriesError(url, attempts, new TimeoutError(url, deadline, 'deadline'), 'exhausted');
+      }
+
+      const headers = new Headers(options.headers);
+      // Ranges count encoded bytes, so ask for the body as stored
+      if (!headers.has('accept-encoding')) {
+        headers.set('Accept-Encoding', 'identity');
+      }
+      if (entity && received > 0) {
+        headers.set('Range', `bytes=${received}-`);
+        if (entity.ifRange !== undefined) {
+          headers.set('If-Range', entity.ifRange);
+        }
+      }
+
+      let response: Response;
+      try {
+        // Each request only gets what is left of the download's deadline
+        const result = await fetchWithRetry<Response>(
+          url,
+          { ...options, headers },
+          { ...retryConfig, responseType: 'response', ...(remaining !== undefined ? { deadline: remaining } : {}) }
+        );
+        attempts += result.attempts;
+        response = result.data;
+      } catch (error) {
+        // 416: the range no longer fits the entity, so it changed under us
+        if (received > 0 && error instanceof MaxRetriesError && error.lastError instanceof HttpError && error.lastError.status === 416) {
+          attempts += error.attempts;
+          await restart();
+          continue;
+        }
+        throw error;
+      }
+
+      if (entity && received > 0) {
+        if (response.status === 206 && continuesEntity(response, entity, received)) {
+          resumes++;
+          writeLog(logger, 'info', `🔄 Resuming ${url} at byte ${received}`, { url, received });
+        } else if (response.status === 206) {
+          await response.body?.cancel();
+          await restart();
+          continue;
+        } else {
+          // A full response: the server ignored Range or the entity changed; use it as the fresh start
+          await restart();
+        }
+      }
+      entity ??= entityOf(response);
+
+      let failure: Error | undefined;
+      try {
+        await pipe(response);
+        if (entity.total !== undefined && received < entity.total) {
+          failure = new NetworkError(`Body of ${url} ended after ${received} of ${entity.total} bytes`, undefined);
+        }
+      } catch (error) {
+        if (error instanceof AbortError) {
+          throw error;
+        }
+        failure = error instanceof Error ? classifyFetchError(error, url) : new NetworkError('Unknown network error', error);
+      }
+
+      if (!failure) {
+        break;
+      }
+
+      interruptions++;
+      if (interruptions > maxResumes) {
+        throw new MaxRetriesError(url, attempts, failure, 'exhausted');
+      }
+      writeLog(logger, 'warn', `⚠️ Download of ${url} interrupted at byte ${received}: ${failure.message}`, { url, received });
+    }
+  } finally {
+    await sink.close?.();
+  }
+
+  const digest = hash.digest('hex');
+  if (downloadOptions.sha256 !== undefined && downloadOptions.sha256.toLowerCase() !== digest) {
+    throw new ChecksumError(url, downloadOptions.sha256.toLowerCase(), digest);
+  }
+
+  return {
+    bytes: received,
+    sha256: digest,
+    attempts,
+    resumes,
+    restarts,
+    duration: clock.now() - startTime,
+    ...(entity?.etag !== undefined ? { etag: entity.etag } : {})
+  };
+}
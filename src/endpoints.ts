@@ -0,0 +1,206 @@
+import { Clock, systemClock } from './clock';
+
+/**
+ * How the next endpoint is chosen among the healthy ones
+ * - ordered: the first in the list (failover to the next when it is ejected)
+ * - round-robin: each in turn
+ * - lowest-latency: the one with the lowest observed latency; unmeasured endpoints are tried first
+ */
+export type EndpointPolicy = 'ordered' | 'round-robin' | 'lowest-latency';
+
+/**
+ * Configuration options for an endpoint pool
+ */
+export interface EndpointPoolOptions {
+  /** Selection policy (default: 'ordered') */
+  policy: EndpointPolicy;
+  /** Consecutive failures that eject an endpoint (default: 1) */
+  failureThreshold: number;
+  /** Milliseconds an ejected endpoint is skipped before it is tried again (default: 30000) */
+  ejectFor: number;
+  /** Time source for ejections (default: the system clock) */
+  clock: Clock;
+}
+
+/**
+ * Point-in-time view of one endpoint
+ */
+export interface EndpointSnapshot {
+  url: string;
+  healthy: boolean;
+  /** Failures in a row since the last success */
+  consecutiveFailures: number;
+  /** When an ejected endpoint becomes eligible again, in milliseconds since the epoch */
+  ejectedUntil?: number;
+  /** Smoothed latency of successful requests in milliseconds, once measured */
+  latency?: number;
+}
+
+/**
+ * Mutable per-endpoint state
+ */
+interface EndpointState {
+  url: string;
+  consecutiveFailures: number;
+  ejectedUntil: number;
+  latency: number | undefined;
+}
+
+/**
+ * Weight of the newest sample in the smoothed latency
+ */
+const LATENCY_WEIGHT = 0.3;
+
+/**
+ * Default endpoint pool configuration
+ */
+const DEFAULT_ENDPOINT_POOL_OPTIONS: EndpointPoolOptions = {
+  policy: 'ordered',
+  failureThreshold: 1,
+  ejectFor: 30000,
+  clock: systemClock
+};
+
+/**
+ * Resolves a request URL against an endpoint's base URL. Paths are appended
+ * to the base's own path; an absolute URL keeps only its path and query.
+ * @param endpoint - Base URL, e.g. 'https://eu.api.example.com/v1'
+ * @param url - Request path, e.g. '/users/1'
+ * @returns Absolute URL on the endpoint
+ */
+export const resolveEndpointUrl = (endpoint: string, url: string): string => {
+  let path = url;
+  if (/^[a-z][a-z\d+.-]*:\/\//i.test(url)) {
+    const parsed = new URL(url);
+    path = `${parsed.pathname}${parsed.search}`;
+  }
+  return `${endpoint.replace(/\/+$/, '')}/${path.replace(/^\/+/, '')}`;
+};
+
+/**
+ * Base URLs serving the same API (regions, mirrors), with the health of each.
+ * An endpoint that fails `failureThreshold` times in a row is ejected for
+ * `ejectFor` ms; a single failure after it comes back ejects it again.
+ * Share one instance between fetchers to share health and latency data.
+ *
+ * @example
+ * const api = createFetcher({
+ *   endpoints: new EndpointPool(['https://eu.api.example.com', 'https://us.api.example.com'], { policy: 'lowest-latency' })
+ * });
+ * const { data, endpoint } = await api('/users/1');
+ */
+export class EndpointPool {
+  public readonly options: EndpointPoolOptions;
+  private readonly states: EndpointState[];
+  private cursor = 0;
+
+  constructor(endpoints: string[], options: Partial<EndpointPoolOptions> = {}) {
+    if (endpoints.length === 0) {
+      throw new Error('EndpointPool needs at least one endpoint');
+    }
+    this.options = { ...DEFAULT_ENDPOINT_POOL_OPTIONS, ...options };
+    this.states = endpoints.map(url => ({ url, consecutiveFailures: 0, ejectedUntil: 0, latency: undefined }));
+  }
+
+  /**
+   * Chooses the endpoint for the next request. Endpoints in `exclude` (those
+   * a call already tried) are passed over while others are healthy; when
+   * every endpoint is ejected, the one that returns soonest is used.
+   * @param exclude - Endpoints to avoid if possible
+   * @param usable - Extra check, e.g. that the endpoint's circuit is not open
+   * @returns Base URL of the chosen endpoint
+   */
+  select(exclude: ReadonlySet<string> = new Set(), usable?: (endpoint: string) => boolean): string {
+    const now = this.options.clock.now();
+    const healthy = this.states.filter(state => state.ejectedUntil <= now && (!usable || usable(state.url)));
+    const untried = healthy.filter(state => !exclude.has(state.url));
+    const candidates = untried.length > 0 ? untried : healthy;
+
+    if (candidates.length === 0) {
+      return this.states.reduce((soonest, state) => (state.ejectedUntil < soonest.ejectedUntil ? state : soonest)).url;
+    }
+
+    switch (this.options.policy) {
+      case 'round-robin': {
+        for (let offset = 0; offset < this.states.length; offset++) {
+          const index = (this.cursor + offset) % this.states.length;
+          if (candidates.includes(this.states[index])) {
+            this.cursor = index + 1;
+            return this.states[index].url;
+          }
+        }
+        return candidates[0].url;
+      }
+      case 'lowest-latency':
+        return candidates.reduce((best, state) => ((state.latency ?? 0) < (best.latency ?? 0) ? state : best)).url;
+      default:
+        return candidates[0].url;
+    }
+  }
+
+  /**
+   * Records a request the endpoint answered
+   * @param endpoint - Base URL
+   * @param latency - Time to a usable response in milliseconds, if measured
+   */
+  recordSuccess(endpoint: string, latency?: number): void {
+    const state = this.state(endpoint);
+    if (!state) {
+      return;
+    }
+
+    state.consecutiveFailures = 0;
+    state.ejectedUntil = 0;
+    if (latency !== undefined) {
+      state.latency = state.latency === undefined
+        ? latency
+        : state.latency + LATENCY_WEIGHT * (latency - state.latency);
+    }
+  }
+
+  /**
+   * Records a failure that points at the endpoint, ejecting it past the threshold
+   * @param endpoint - Base URL
+   */
+  recordFailure(endpoint: string): void {
+    const state = this.state(endpoint);
+    if (!state) {
+      return;
+    }
+
+    state.consecutiveFailures++;
+    if (state.consecutiveFailures >= this.options.failureThreshold) {
+      state.ejectedUntil = this.options.clock.now() + this.options.ejectFor;
+    }
+  }
+
+  /**
+   * Returns the state of every endpoint, in pool order
+   */
+  snapshot(): EndpointSnapshot[] {
+    const now = this.options.clock.now();
+    return this.states.map(state => ({
+      url: state.url,
+      healthy: state.ejectedUntil <= now,
+      consecutiveFailures: state.consecutiveFailures,
+      ...(state.ejectedUntil > now ? { ejectedUntil: state.ejectedUntil } : {}),
+      ...(state.latency !== undefined ? { latency: state.latency } : {})
+    }));
+  }
+
+  /**
+   * Clears health and latency data for every endpoint
+   */
+  reset(): void {
+    for (const state of this.states) {
+      state.consecutiveFailures = 0;
+      state.ejectedUntil = 0;
+      state.latency = undefined;
+    }
+    this.cursor = 0;
+  }
+
+  private state(endpoint: string): EndpointState | undefined {
+    return this.states.find(state => state.url === endpoint);
+  }
+}
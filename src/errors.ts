@@ -1,3 +1,37 @@
+/**
+ * Why the retry loop stopped
+ * - `exhausted`: every allowed attempt (or the deadline) was used up
+ * - `non-retryable`: the last error, method or server response ruled out a retry
+ * - `budget-denied`: the shared retry budget refused the retry
+ * - `body-not-replayable`: a retry or auth replay would have resent a stream body that was already consumed
+ */
+export type StopReason = 'exhausted' | 'non-retryable' | 'budget-denied' | 'body-not-replayable';
+
+/**
+ * One failed attempt of a call
+ */
+export interface AttemptRecord {
+  /** Attempt number (1-based) */
+  attempt: number;
+  /** When the attempt started, in milliseconds since the epoch (by the configured clock) */
+  startedAt: number;
+  /** Milliseconds the attempt took, queueing included */
+  duration: number;
+  /** Response status, when a response arrived */
+  status?: number;
+  error: Error;
+  /** Backoff delay chosen before the next attempt, when a retry was scheduled */
+  delay?: number;
+}
+
+/**
+ * Suffix explaining stop reasons that are not obvious from the last error
+ */
+const STOP_REASON_NOTES: Partial<Record<StopReason, string>> = {
+  'budget-denied': ' (retry denied by retry budget)',
+  'body-not-replayable': ' (the request body is a stream that cannot be sent again)'
+};
+
 /**
  * Custom error class for retry failures
  */
@@ -5,15 +39,28 @@ export class MaxRetriesError extends Error {
   public readonly lastError: Error;
   public readonly attempts: number;
   public readonly url: string;
+  /** Why no further attempt was made */
+  public readonly stopReason: StopReason;
+  /** Every failed attempt, oldest first */
+  public readonly history: AttemptRecord[];
 
-  constructor(url: string, attempts: number, lastError: Error) {
+  constructor(
+    url: string,
+    attempts: number,
+    lastError: Error,
+    stopReason: StopReason = 'exhausted',
+    history: AttemptRecord[] = []
+  ) {
     super(
       `Failed to fetch ${url} after ${attempts} attempts. Last error: ${lastError.message}`
+        + (STOP_REASON_NOTES[stopReason] ?? '')
     );
     this.name = 'MaxRetriesError';
     this.lastError = lastError;
     this.attempts = attempts;
     this.url = url;
+    this.stopReason = stopReason;
+    this.history = history;
     
     // Maintains proper stack trace for where our error was thrown
     if (Error.captureStackTrace) {
@@ -27,11 +74,45 @@ export class MaxRetriesError extends Error {
  */
 export class NetworkError extends Error {
   public readonly originalError: unknown;
+  /** System or undici error code, e.g. 'ECONNRESET', when known */
+  public readonly code: string | undefined;
 
-  constructor(message: string, originalError: unknown) {
+  constructor(message: string, originalError: unknown, code?: string) {
     super(message);
     this.name = 'NetworkError';
     this.originalError = originalError;
+    this.code = code;
+  }
+}
+
+/**
+ * Error for host names that could not be resolved
+ */
+export class DnsError extends NetworkError {
+  constructor(url: string, originalError: unknown, code?: string) {
+    super(`Could not resolve host for ${url}${code ? ` (${code})` : ''}`, originalError, code);
+    this.name = 'DnsError';
+  }
+}
+
+/**
+ * Error for connections that were refused, reset or closed mid-response
+ */
+export class ConnectionError extends NetworkError {
+  constructor(url: string, originalError: unknown, code?: string) {
+    super(`Connection to ${url} failed${code ? ` (${code})` : ''}`, originalError, code);
+    this.name = 'ConnectionError';
+  }
+}
+
+/**
+ * Error for failed TLS handshakes and certificate checks. Not retried by
+ * default, since the same certificate will fail again.
+ */
+export class TlsError extends NetworkError {
+  constructor(url: string, originalError: unknown, code?: string) {
+    super(`TLS failure for ${url}${code ? ` (${code})` : ''}`, originalError, code);
+    this.name = 'TlsError';
   }
 }
 
@@ -42,12 +123,201 @@ export class HttpError extends Error {
   public readonly status: number;
   public readonly statusText: string;
   public readonly url: string;
+  /** Response headers, e.g. for reading `Retry-After` */
+  public readonly headers: Headers;
+  /** The start of the response body as text, up to `errorBodyLimit` bytes */
+  public readonly body: string | undefined;
 
-  constructor(status: number, statusText: string, url: string) {
+  constructor(status: number, statusText: string, url: string, headers?: Headers, body?: string) {
     super(`HTTP Error ${status}: ${statusText} for ${url}`);
     this.name = 'HttpError';
     this.status = status;
     this.statusText = statusText;
     this.url = url;
+    this.headers = headers ?? new Headers();
+    this.body = body;
+  }
+}
+
+/**
+ * Error for requests that did not complete in time. Extends NetworkError so
+ * that timed-out attempts are retried by default.
+ */
+export class TimeoutError extends NetworkError {
+  /** The limit that was exceeded, in milliseconds; unknown for socket timeouts */
+  public readonly timeout: number | undefined;
+  /**
+   * Which limit ran out: the per-attempt timeout, the overall deadline, or a
+   * connect/socket timeout inside `fetch`
+   */
+  public readonly kind: 'attempt' | 'deadline' | 'socket';
+
+  constructor(url: string, timeout: number | undefined, kind: 'attempt' | 'deadline' | 'socket', originalError?: unknown, code?: string) {
+    super(
+      kind === 'attempt'
+        ? `Attempt to fetch ${url} timed out after ${timeout}ms`
+        : kind === 'deadline'
+          ? `Deadline of ${timeout}ms exceeded for ${url}`
+          : `Connection to ${url} timed out${code ? ` (${code})` : ''}`,
+      originalError,
+      code
+    );
+    this.name = 'TimeoutError';
+    this.timeout = timeout;
+    this.kind = kind;
+  }
+}
+
+/**
+ * Error thrown when the caller aborts a request, however far the call got.
+ * Never retried.
+ */
+export class AbortError extends Error {
+  /** The reason passed to `AbortController.abort()`, if any */
+  public readonly reason: unknown;
+  /** Attempts made before the abort, oldest first; the last one is the attempt that was cut short, if any */
+  public readonly history: AttemptRecord[];
+
+  constructor(message: string = 'The operation was aborted', reason?: unknown, history: AttemptRecord[] = []) {
+    super(message);
+    this.name = 'AbortError';
+    this.reason = reason;
+    this.history = history;
+  }
+}
+
+/**
+ * Error thrown without making a request because the circuit for the
+ * target host is open
+ */
+export class CircuitOpenError extends Error {
+  public readonly url: string;
+  /** Circuit key, the URL's origin by default */
+  public readonly key: string;
+  /** When the circuit will next let a trial request through, in milliseconds since the epoch */
+  public readonly retryAt: number;
+
+  constructor(url: string, key: string, retryAt: number) {
+    super(`Circuit for ${key} is open; not fetching ${url}`);
+    this.name = 'CircuitOpenError';
+    this.url = url;
+    this.key = key;
+    this.retryAt = retryAt;
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Error for response bodies that could not be parsed as the requested type
+ */
+export class ResponseParseError extends Error {
+  public readonly url: string;
+  /** The body type that was being read */
+  public readonly responseType: string;
+  public readonly originalError: unknown;
+
+  constructor(url: string, responseType: string, originalError: unknown) {
+    super(
+      `Failed to parse ${responseType} response from ${url}: ${originalError instanceof Error ? originalError.message : String(originalError)}`
+    );
+    this.name = 'ResponseParseError';
+    this.url = url;
+    this.responseType = responseType;
+    this.originalError = originalError;
+  }
+}
+
+/**
+ * Error for response bodies rejected by the configured validator
+ */
+export class ValidationError extends Error {
+  public readonly url: string;
+  /** Whatever the validator threw, e.g. a ZodError with its issues */
+  public readonly originalError: unknown;
+
+  constructor(url: string, originalError: unknown) {
+    super(
+      `Response from ${url} failed validation: ${originalError instanceof Error ? originalError.message : String(originalError)}`
+    );
+    this.name = 'ValidationError';
+    this.url = url;
+    this.originalError = originalError;
+  }
+}
+
+/**
+ * Error thrown when a request waits in the scheduler queue longer than allowed
+ */
+export class QueueTimeoutError extends Error {
+  public readonly url: string;
+  /** The queue timeout that was exceeded, in milliseconds */
+  public readonly timeout: number;
+
+  constructor(url: string, timeout: number) {
+    super(`Request to ${url} waited more than ${timeout}ms in the queue`);
+    this.name = 'QueueTimeoutError';
+    this.url = url;
+    this.timeout = timeout;
+  }
+}
+
+/**
+ * Error thrown when a page of a paginated fetch fails. `cursor` is the URL of
+ * the page that failed; pass it back to paginateWithRetry to resume.
+ */
+export class PaginationError extends Error {
+  /** URL of the page that failed, i.e. where to resume */
+  public readonly cursor: string;
+  /** Pages fetched successfully before the failure */
+  public readonly pages: number;
+  /** Items yielded before the failure */
+  public readonly items: number;
+  /** Why the page failed, usually a MaxRetriesError */
+  public readonly originalError: unknown;
+
+  constructor(cursor: string, pages: number, items: number, originalError: unknown) {
+    super(
+      `Pagination failed at ${cursor} after ${pages} pages: ${originalError instanceof Error ? originalError.message : String(originalError)}`
+    );
+    this.name = 'PaginationError';
+    this.cursor = cursor;
+    this.pages = pages;
+    this.items = items;
+    this.originalError = originalError;
+  }
+}
+
+/**
+ * Error thrown when a download cannot be completed as requested, e.g. the
+ * server ignored the Range header and the sink cannot start over
+ */
+export class DownloadError extends Error {
+  public readonly url: string;
+  /** Bytes written to the sink before the failure */
+  public readonly received: number;
+
+  constructor(url: string, message: string, received: number) {
+    super(`Download of ${url} failed: ${message}`);
+    this.name = 'DownloadError';
+    this.url = url;
+    this.received = received;
+  }
+}
+
+/**
+ * Error thrown when a downloaded file does not match its expected checksum
+ */
+export class ChecksumError extends Error {
+  public readonly url: string;
+  /** Expected sha256, hex-encoded */
+  public readonly expected: string;
+  /** sha256 of the bytes received, hex-encoded */
+  public readonly actual: string;
+
+  constructor(url: string, expected: string, actual: string) {
+    super(`Checksum mismatch for ${url}: expected sha256 ${expected}, got ${actual}`);
+    this.name = 'ChecksumError';
+    this.url = url;
+    this.expected = expected;
+    this.actual = actual;
+  }
+}
@@ -1,27 +1,58 @@
-import { RetryConfig, DEFAULT_RETRY_CONFIG, FetchWithRetryResult } from './types';
-import { MaxRetriesError, NetworkError, HttpError } from './errors';
+import { RetryConfig, DEFAULT_RETRY_CONFIG, FetchWithRetryResult, Fetcher, FetcherStats } from './types';
+import {
+  MaxRetriesError,
+  NetworkError,
+  HttpError,
+  TimeoutError,
+  AbortError,
+  CircuitOpenError,
+  ResponseParseError,
+  ValidationError,
+  QueueTimeoutError,
+  TlsError,
+  AttemptRecord,
+  StopReason
+} from './errors';
+import { getServerRetryDelay } from './retryAfter';
+import { calculateDelay } from './backoff';
+import { createAttemptSignal } from './signals';
+import { writeLog } from './logger';
+import { parseResponse, validateResponse, readBodySnapshot } from './responseParser';
+import { classifyFetchError } from './networkErrors';
+import { getMethod, withIdempotencyKey, isRetryableMethod } from './idempotency';
+import { prepareRequestBody } from './requestBody';
+import { EndpointPool, resolveEndpointUrl } from './endpoints';
+import { SingleFlight, defaultSingleFlight } from './singleFlight';
+import { ResponseCache, CacheEntry, defaultResponseCache } from './cache';
+import { runHedged, resolveHedgeDelay, defaultLatencyTracker } from './hedging';
+import { compose, CallMiddlewareContext, AttemptMiddlewareContext } from './middleware';
+import { sendWithAuth, rejectsCredentials } from './auth';
+import { CallInstrumentation, startCallInstrumentation, failedCallEvent, failureReason } from './instrumentation';
+import type { ReleaseSlot } from './scheduler';
 
 /**
- * Delays execution for a specified duration
- * @param ms - Milliseconds to delay
- * @returns Promise that resolves after the delay
+ * Throws an AbortError if the caller's signal has been aborted
+ * @param url - The URL being fetched
+ * @param signal - The caller's signal, if any
  */
-const delay = (ms: number): Promise<void> =>
-  new Promise(resolve => setTimeout(resolve, ms));
+const throwIfAborted = (url: string, signal: AbortSignal | null | undefined): void => {
+  if (signal?.aborted) {
+    throw new AbortError(`Request to ${url} was aborted`, signal.reason);
+  }
+};
 
 /**
- * Calculates the delay for the current retry attempt
- * @param attempt - Current attempt number (1-based)
+ * Reads the delay the server asked for via `Retry-After` or rate-limit headers
+ * @param error - The error that occurred
  * @param config - Retry configuration
- * @returns Delay in milliseconds
+ * @returns Delay in milliseconds, or undefined when the server gave no hint
  */
-const calculateDelay = (attempt: number, config: RetryConfig): number => {
-  if (!config.exponential) {
-    return config.baseDelay;
+const getRetryAfterDelay = (error: unknown, config: RetryConfig): number | undefined => {
+  if (!config.respectRetryAfter || !(error instanceof HttpError)) {
+    return undefined;
   }
 
-  const exponentialDelay = config.baseDelay * Math.pow(config.backoffMultiplier, attempt - 1);
-  return Math.min(exponentialDelay, config.maxDelay);
+  return getServerRetryDelay(error.status, error.headers, config.clock.now());
 };
 
 /**
@@ -35,14 +66,83 @@ const shouldRetryRequest = (error: unknown, config: RetryConfig): boolean => {
     return config.retryStatusCodes.includes(error.status);
   }
 
+  if (error instanceof ResponseParseError || error instanceof ValidationError) {
+    return config.retryOnInvalidResponse;
+  }
+
   if (config.shouldRetry) {
     return config.shouldRetry(error);
   }
 
-  // Retry on network errors by default
-  return error instanceof NetworkError;
+  // Retry on network errors by default, except TLS failures, which will fail the same way again
+  return error instanceof NetworkError && !(error instanceof TlsError);
 };
 
+/**
+ * Determines if a failed request means the host itself is failing, for the circuit breaker.
+ * Anything thrown by `fetch` counts, while client errors such as 404 prove the host
+ * is up and count as successes.
+ * @param error - The error from the request, before the body was read
+ * @param config - Retry configuration
+ * @returns boolean indicating whether the failure counts against the circuit
+ */
+const isHostFailure = (error: Error, config: RetryConfig): boolean =>
+  !(error instanceof HttpError) || config.retryStatusCodes.includes(error.status);
+
+/**
+ * Cache entry being revalidated by a call, and where to store the outcome
+ */
+interface CacheRevalidation {
+  cache: ResponseCache;
+  key: string;
+  entry?: CacheEntry;
+}
+
+/**
+ * Determines if the call returns an unread body, which only one caller can consume
+ * @param config - Retry configuration
+ * @returns boolean indicating whether the result is single-use
+ */
+const hasSingleUseResult = (config: RetryConfig): boolean =>
+  config.responseType === 'stream' || config.responseType === 'response';
+
+/**
+ * Determines if a request may be served from or stored in the cache.
+ * Only GET requests whose body is parsed up front are cached.
+ * @param options - Fetch options
+ * @param config - Retry configuration
+ * @returns boolean indicating whether the cache applies
+ */
+const isCacheable = (options: RequestInit, config: RetryConfig): boolean =>
+  getMethod(options) === 'GET' && !hasSingleUseResult(config);
+
+/**
+ * Determines if a failed call may fall back to a stale cache entry: it ran
+ * out of retries, or the circuit breaker or scheduler refused to send it.
+ * A caller that aborted gets the AbortError.
+ * @param error - The error the call failed with
+ * @returns boolean indicating whether stale-if-error applies
+ */
+const canServeStaleOnError = (error: unknown): boolean =>
+  error instanceof MaxRetriesError || error instanceof CircuitOpenError || error instanceof QueueTimeoutError;
+
+/**
+ * Builds a result for data served from the cache without a fresh response
+ * @param entry - The cached entry
+ * @param cache - The cache it came from
+ * @param attempts - Attempts made before falling back to the cache
+ * @param duration - Time spent, in milliseconds
+ * @returns Result flagged as coming from the cache
+ */
+const cachedResult = <T>(entry: CacheEntry, cache: ResponseCache, attempts: number, duration: number): FetchWithRetryResult<T> => ({
+  data: entry.data as T,
+  attempts,
+  duration,
+  succeededOnRetry: false,
+  fromCache: true,
+  cacheAge: cache.age(entry)
+});
+
 /**
  * Fetches data from a URL with configurable retry logic
  * @param url - The URL to fetch data from
@@ -50,64 +150,709 @@ const shouldRetryRequest = (error: unknown, config: RetryConfig): boolean => {
  * @param retryConfig - Configuration for retry behavior
  * @returns Promise with the fetched data and retry metadata
  * @throws {MaxRetriesError} When all retry attempts fail
+ * @throws {AbortError} When the caller's signal is aborted
+ * @throws {CircuitOpenError} When the circuit for the target host is open
  */
 export async function fetchWithRetry<T = any>(
   url: string,
   options: RequestInit = {},
-  retryConfig: Partial<RetryConfig> = {}
+  retryConfig: Partial<RetryConfig<T>> = {}
 ): Promise<FetchWithRetryResult<T>> {
-  const config: RetryConfig = { ...DEFAULT_RETRY_CONFIG, ...retryConfig };
-  const startTime = Date.now();
-  let lastError: Error | null = null;
+  const config: RetryConfig<T> = { ...DEFAULT_RETRY_CONFIG, ...retryConfig };
+  const callMiddleware = config.middleware?.call ?? [];
 
-  for (let attempt = 1; attempt <= config.maxRetries + 1; attempt++) {
-    try {
-      console.log(`🔄 Attempt ${attempt} of ${config.maxRetries + 1} to fetch ${url}`);
+  if (callMiddleware.length === 0) {
+    return executeCall(url, options, config);
+  }
+
+  const ctx: CallMiddlewareContext<T> = { url, options, config };
+  await compose(callMiddleware, async current => {
+    current.result = await executeCall(current.url, current.options, config);
+  })(ctx);
+
+  if (!ctx.result) {
+    throw new Error(`Call middleware for ${url} finished without a result`);
+  }
+  return ctx.result;
+}
+
+/**
+ * Runs one logical call through the cache, single-flight and the retry loop
+ * @param url - The URL to fetch data from
+ * @param options - Fetch options (method, headers, etc.)
+ * @param config - Fully resolved retry configuration
+ * @returns Promise with the fetched or cached data and retry metadata
+ */
+function executeCall<T>(
+  url: string,
+  options: RequestInit,
+  config: RetryConfig<T>
+): Promise<FetchWithRetryResult<T>> {
+  const cache = config.cache === true ? defaultResponseCache : config.cache || undefined;
+
+  if (cache && isCacheable(options, config)) {
+    return fetchWithCache(url, options, config, cache);
+  }
+
+  return executeShared(url, options, config);
+}
+
+/**
+ * Serves a cacheable request from the cache where possible, revalidating
+ * stale entries and falling back to them when every attempt fails
+ * @param url - The URL to fetch data from
+ * @param options - Fetch options (method, headers, etc.)
+ * @param config - Fully resolved retry configuration
+ * @param cache - The response cache
+ * @returns Promise with the fetched or cached data and retry metadata
+ */
+async function fetchWithCache<T>(
+  url: string,
+  options: RequestInit,
+  config: RetryConfig<T>,
+  cache: ResponseCache
+): Promise<FetchWithRetryResult<T>> {
+  const key = cache.keyFor(url, options, config);
+  const entry = await cache.get(key);
+  const startTime = config.clock.now();
+
+  if (entry && cache.isFresh(entry)) {
+    writeLog(config.logger, 'debug', `💾 Serving ${url} from cache`, { url });
+    return cachedResult<T>(entry, cache, 0, 0);
+  }
+
+  const revalidate = (requestOptions: RequestInit) => executeShared(
+    url,
+    entry ? cache.withConditionalHeaders(requestOptions, entry) : requestOptions,
+    config,
+    { cache, key, ...(entry ? { entry } : {}) }
+  );
+
+  if (entry && cache.canServeWhileRevalidating(entry)) {
+    writeLog(config.logger, 'debug', `💾 Serving stale ${url} from cache while revalidating`, { url });
+    // The caller is not waiting on the revalidation, so it must not inherit their signal
+    cache.revalidateInBackground(key, () => revalidate({ ...options, signal: null }));
+    return cachedResult<T>(entry, cache, 0, 0);
+  }
+
+  try {
+    return await revalidate(options);
+  } catch (error) {
+    if (canServeStaleOnError(error) && entry && cache.canServeOnError(entry)) {
+      writeLog(config.logger, 'warn', `⚠️ Serving stale ${url} from cache: ${(error as Error).message}`, { url });
+      const attempts = error instanceof MaxRetriesError ? error.attempts : 0;
+      return cachedResult<T>(entry, cache, attempts, config.clock.now() - startTime);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Runs the retry loop, joining an identical in-flight call when single-flight is enabled
+ * @param url - The URL to fetch data from
+ * @param options - Fetch options (method, headers, etc.)
+ * @param config - Fully resolved retry configuration
+ * @param revalidation - Cache entry being revalidated, if any
+ * @returns Promise with the fetched data and retry metadata
+ */
+function executeShared<T>(
+  url: string,
+  options: RequestInit,
+  config: RetryConfig<T>,
+  revalidation?: CacheRevalidation
+): Promise<FetchWithRetryResult<T>> {
+  const group = config.singleFlight === true ? defaultSingleFlight : config.singleFlight || undefined;
+
+  // Sharing an unread Response would leave every caller but one with a used body
+  if (group && !hasSingleUseResult(config)) {
+    let joined = true;
+    const shared = group.run(url, options, signal => {
+      joined = false;
+      return executeWithRetry(url, { ...options, signal }, config, revalidation);
+    }, config);
+    return joined ? joinFlight(url, options, config, shared) : shared;
+  }
+
+  return executeWithRetry(url, options, config, revalidation);
+}
+
+/**
+ * Waits on an identical call another caller started. The joiner sends no
+ * requests of its own, but its logger, hooks and instrumentation still see
+ * the call end.
+ * @param url - The URL being fetched
+ * @param options - Fetch options (method, headers, etc.)
+ * @param config - The joiner's retry configuration
+ * @param shared - The shared call
+ * @returns Promise with the shared result
+ */
+async function joinFlight<T>(
+  url: string,
+  options: RequestInit,
+  config: RetryConfig<T>,
+  shared: Promise<FetchWithRetryResult<T>>
+): Promise<FetchWithRetryResult<T>> {
+  const instrument = startCallInstrumentation(config.instrumentation, url, getMethod(options));
+  const startTime = config.clock.now();
+  writeLog(config.logger, 'debug', `🔗 Joining the call to ${url} already in flight`, { url });
+
+  try {
+    const result = await shared;
+    const duration = config.clock.now() - startTime;
+    writeLog(config.logger, 'info', `✅ Shared call to ${url} succeeded (${duration}ms)`, { url, duration });
+    await config.onSuccess?.({ url, result });
+    instrument?.end?.({ outcome: 'success', attempts: 0, duration, backoff: 0, shared: true });
+    return result;
+  } catch (error) {
+    const duration = config.clock.now() - startTime;
+    if (error instanceof MaxRetriesError) {
+      writeLog(config.logger, 'error', `❌ Shared call to ${url} gave up (${error.stopReason}, ${duration}ms)`, { url, duration, stopReason: error.stopReason });
+      await config.onGiveUp?.({ url, error });
+    }
+    instrument?.end?.({ ...failedCallEvent(error, 0, duration, 0), shared: true });
+    throw error;
+  }
+}
+
+/**
+ * Per-call state shared by every attempt
+ */
+interface CallContext<T> {
+  url: string;
+  config: RetryConfig<T>;
+  /** Options sent with every attempt, idempotency key included */
+  requestOptions: RequestInit;
+  /** Whether the request body can be sent again */
+  replayable: boolean;
+  callerSignal: AbortSignal | null | undefined;
+  deadlineAt: number | undefined;
+  circuitKey: string;
+  revalidation: CacheRevalidation | undefined;
+  progress: CallProgress;
+  /** Endpoints attempts are spread over, when configured */
+  endpoints: EndpointPool | undefined;
+  /** Endpoints this call has sent attempts to */
+  triedEndpoints: Set<string>;
+}
+
+/**
+ * Running totals for a call, reported to instrumentation when it ends
+ */
+interface CallProgress {
+  instrument: CallInstrumentation | undefined;
+  /** Attempts started so far */
+  attempts: number;
+  /** Milliseconds spent in backoff delays */
+  backoff: number;
+}
+
+/**
+ * Outcome of sending one request; failures are returned rather than thrown
+ * so the retry loop can decide what to do with them
+ */
+type AttemptOutcome<T> =
+  | { ok: true; data: T; headers: Headers; cacheAge?: number; endpoint?: string }
+  | { ok: false; error: Error; authReplayRefused?: boolean };
+
+/**
+ * Calls `fetch` through the attempt middleware chain, adding credentials
+ * and replaying once after a token refresh when auth is configured
+ * @param url - The URL to fetch
+ * @param request - Fetch options for this attempt
+ * @param attempt - Attempt number (1-based)
+ * @param config - Retry configuration
+ * @param replayable - Whether the body may be sent again for an auth replay
+ * @returns The response produced by `fetch` or by middleware
+ */
+async function sendRequest<T>(
+  url: string,
+  request: RequestInit,
+  attempt: number,
+  config: RetryConfig<T>,
+  replayable: boolean
+): Promise<Response> {
+  const attemptMiddleware = config.middleware?.attempt ?? [];
+  // Looked up per attempt so a global fetch patched after import is honoured
+  const fetchImpl = config.fetch ?? fetch;
+
+  const send = async (sent: RequestInit): Promise<Response> => {
+    // Built per request, so an auth replay gets a fresh body too
+    const current = config.bodyFactory ? { ...sent, body: await config.bodyFactory() } : sent;
+    if (attemptMiddleware.length === 0) {
+      return fetchImpl(url, current);
+    }
+
+    const ctx: AttemptMiddlewareContext = { url, request: current, attempt };
+    await compose(attemptMiddleware, async inner => {
+      inner.response = await fetchImpl(inner.url, inner.request);
+    })(ctx);
+
+    if (!ctx.response) {
+      throw new Error(`Attempt middleware for ${url} finished without a response`);
+    }
+    return ctx.response;
+  };
+
+  return config.auth ? sendWithAuth(request, config.auth, send, replayable) : send(request);
+}
+
+/**
+ * Sends one request: waits for a rate-limit token and a scheduler slot,
+ * consults the circuit breaker, then fetches and parses the response
+ * @param call - Per-call state
+ * @param attempt - Attempt number (1-based)
+ * @param signal - Signal for this request; the caller's, or a hedge's own
+ * @param hedge - 0 for the original request, 1+ for hedges
+ * @returns The parsed data, or the error that made the request fail
+ * @throws {AbortError} When the caller aborts
+ * @throws {TimeoutError} When the deadline passes while waiting for a rate-limit token or a scheduler slot
+ * @throws {CircuitOpenError} When the circuit is open
+ * @throws {QueueTimeoutError} When the scheduler queue times out
+ */
+async function sendAttempt<T>(
+  call: CallContext<T>,
+  attempt: number,
+  signal: AbortSignal | null | undefined,
+  hedge: number = 0
+): Promise<AttemptOutcome<T>> {
+  const { config, requestOptions, callerSignal, deadlineAt, revalidation, endpoints } = call;
+  const { instrument } = call.progress;
+  const breaker = config.circuitBreaker;
+
+  // Skip endpoints whose circuit is open, so a retry fails over instead of being refused
+  const endpoint = endpoints?.select(call.triedEndpoints, candidate =>
+    !breaker || breaker.getState(breaker.keyFor(resolveEndpointUrl(candidate, call.url))) !== 'open'
+  );
+  const url = endpoint ? resolveEndpointUrl(endpoint, call.url) : call.url;
+  const circuitKey = endpoint && breaker ? breaker.keyFor(url) : call.circuitKey;
+  if (endpoint) {
+    call.triedEndpoints.add(endpoint);
+  }
+
+  // Waiting for a token or a slot counts against the deadline like any other part of the call
+  const waitSignal = deadlineAt !== undefined
+    ? createAttemptSignal(signal, Math.max(0, deadlineAt - config.clock.now()), config.clock)
+    : undefined;
+  let releaseSlot: ReleaseSlot | undefined;
+  try {
+    await config.rateLimit?.acquire(url, requestOptions, waitSignal?.signal ?? signal);
+    releaseSlot = await config.scheduler?.acquire(url, config.priority, waitSignal?.signal ?? signal);
+  } catch (error) {
+    if (waitSignal?.timedOut()) {
+      throw new TimeoutError(url, config.deadline!, 'deadline');
+    }
+    throw error;
+  } finally {
+    waitSignal?.cleanup();
+  }
+
+  if (breaker && !breaker.tryAcquire(circuitKey)) {
+    releaseSlot?.();
+    throw new CircuitOpenError(url, circuitKey, breaker.retryAt(circuitKey));
+  }
+
+  const remaining = deadlineAt !== undefined ? Math.max(0, deadlineAt - config.clock.now()) : undefined;
+  const deadlineIsCloser = remaining !== undefined && (config.timeout === undefined || remaining < config.timeout);
+  const attemptSignal = createAttemptSignal(signal, deadlineIsCloser ? remaining : config.timeout, config.clock);
+  const sentAt = config.clock.now();
+  let circuitSettled = !breaker;
+  // Set once a usable response arrived: whatever fails after that is not the endpoint's fault
+  let answered = false;
+  let status: number | undefined;
+  let attemptError: Error | undefined;
+  let authReplayRefused = false;
 
-      const response = await fetch(url, options);
+  instrument?.attemptStart?.({ attempt, ...(hedge > 0 ? { hedge } : {}) });
 
-      if (!response.ok) {
-        throw new HttpError(response.status, response.statusText, url);
+  try {
+    writeLog(config.logger, 'debug', `🔄 Attempt ${attempt} of ${config.maxRetries + 1} to fetch ${url}`, { url, attempt });
+
+    const response = await sendRequest(url, { ...requestOptions, signal: attemptSignal.signal }, attempt, config, call.replayable);
+    config.rateLimit?.update(url, requestOptions, response.headers);
+    status = response.status;
+
+    if (response.status === 304 && revalidation?.entry) {
+      breaker?.recordSuccess(circuitKey);
+      circuitSettled = true;
+
+      const refreshed = await revalidation.cache.refresh(revalidation.key, revalidation.entry, response);
+      if (endpoint) {
+        endpoints!.recordSuccess(endpoint);
       }
+      return { ok: true, data: refreshed.data as T, headers: response.headers ?? new Headers(), cacheAge: 0, ...(endpoint ? { endpoint } : {}) };
+    }
 
-      const data: T = await response.json();
-      const duration = Date.now() - startTime;
+    if (!response.ok) {
+      authReplayRefused = !call.replayable && !!config.auth && rejectsCredentials(response, config.auth);
+      const body = await readBodySnapshot(response, config.errorBodyLimit);
+      throw new HttpError(response.status, response.statusText, url, response.headers, body);
+    }
 
-      console.log(`✅ Successfully fetched data on attempt ${attempt} (${duration}ms)`);
+    breaker?.recordSuccess(circuitKey);
+    circuitSettled = true;
+    answered = true;
 
-      return {
-        data,
-        attempts: attempt,
-        duration,
-        succeededOnRetry: attempt > 1
-      };
+    const body = await parseResponse(response, config.responseType, url, getMethod(requestOptions));
+    const data = (config.validate ? validateResponse(body, config.validate, url) : body) as T;
 
-    } catch (error) {
-      lastError = error instanceof Error ? error : new Error(String(error));
+    if (config.hedge) {
+      (config.hedge.latencyTracker ?? defaultLatencyTracker).record(url, config.clock.now() - sentAt);
+    }
+
+    if (endpoint) {
+      endpoints!.recordSuccess(endpoint, config.clock.now() - sentAt);
+    }
+
+    await revalidation?.cache.store(revalidation.key, response, data);
+    return { ok: true, data, headers: response.headers ?? new Headers(), ...(endpoint ? { endpoint } : {}) };
+
+  } catch (error) {
+    attemptError = error instanceof Error ? error : undefined;
+    throwIfAborted(url, callerSignal);
 
-      // Wrap non-Error objects in NetworkError
-      if (!(error instanceof Error)) {
-        lastError = new NetworkError('Unknown network error', error);
+    // Wrap non-Error objects in NetworkError, and fetch's TypeErrors in the matching subtype
+    let failure = error instanceof Error
+      ? classifyFetchError(error, url)
+      : new NetworkError('Unknown network error', error);
+
+    if (attemptSignal.timedOut()) {
+      failure = deadlineIsCloser
+        ? new TimeoutError(url, config.deadline!, 'deadline')
+        : new TimeoutError(url, config.timeout!, 'attempt');
+    }
+
+    if (breaker && !circuitSettled && !signal?.aborted) {
+      if (isHostFailure(failure, config)) {
+        breaker.recordFailure(circuitKey);
+      } else {
+        breaker.recordSuccess(circuitKey);
       }
+      circuitSettled = true;
+    }
+
+    // A hedge copy aborted because another one won says nothing about its endpoint,
+    // and neither does a body that failed to parse or validate after a good response
+    if (endpoint && !signal?.aborted) {
+      if (!answered && isHostFailure(failure, config)) {
+        endpoints!.recordFailure(endpoint);
+      } else {
+        endpoints!.recordSuccess(endpoint);
+      }
+    }
+
+    attemptError = failure;
+    return { ok: false, error: failure, ...(authReplayRefused ? { authReplayRefused } : {}) };
+  } finally {
+    instrument?.attemptEnd?.({
+      attempt,
+      ...(hedge > 0 ? { hedge } : {}),
+      duration: config.clock.now() - sentAt,
+      ...(status !== undefined ? { status } : {}),
+      ...(attemptError ? { error: attemptError } : {})
+    });
+    attemptSignal.cleanup();
+    releaseSlot?.();
+    if (!circuitSettled) {
+      breaker?.release(circuitKey);
+    }
+  }
+}
+
+/**
+ * Runs one logical call, reporting it to the configured instrumentation
+ * @param url - The URL to fetch data from
+ * @param options - Fetch options (method, headers, etc.)
+ * @param config - Fully resolved retry configuration
+ * @param revalidation - Cache entry being revalidated, if any
+ * @returns Promise with the fetched data and retry metadata
+ */
+async function executeWithRetry<T>(
+  url: string,
+  options: RequestInit,
+  config: RetryConfig<T>,
+  revalidation?: CacheRevalidation
+): Promise<FetchWithRetryResult<T>> {
+  const progress: CallProgress = {
+    instrument: startCallInstrumentation(config.instrumentation, url, getMethod(options)),
+    attempts: 0,
+    backoff: 0
+  };
+  const startTime = config.clock.now();
+
+  try {
+    const result = await runRetryLoop(url, options, config, revalidation, progress);
+    progress.instrument?.end?.({ outcome: 'success', attempts: result.attempts, duration: result.duration, backoff: progress.backoff });
+    return result;
+  } catch (error) {
+    progress.instrument?.end?.(failedCallEvent(error, progress.attempts, config.clock.now() - startTime, progress.backoff));
+    throw error;
+  }
+}
+
+/**
+ * Runs the retry loop for one logical call
+ * @param url - The URL to fetch data from
+ * @param options - Fetch options (method, headers, etc.)
+ * @param config - Fully resolved retry configuration
+ * @param revalidation - Cache entry being revalidated, if any
+ * @param progress - Totals kept for instrumentation
+ * @returns Promise with the fetched data and retry metadata
+ */
+async function runRetryLoop<T>(
+  url: string,
+  options: RequestInit,
+  config: RetryConfig<T>,
+  revalidation: CacheRevalidation | undefined,
+  progress: CallProgress
+): Promise<FetchWithRetryResult<T>> {
+  const startTime = config.clock.now();
+  const { options: requestOptions, replayable } = await prepareRequestBody(url, withIdempotencyKey(options, config), config);
+  const canRetryMethod = isRetryableMethod(requestOptions, config);
+  const breaker = config.circuitBreaker;
+  const call: CallContext<T> = {
+    url,
+    config,
+    requestOptions,
+    replayable,
+    callerSignal: options.signal,
+    deadlineAt: config.deadline !== undefined ? startTime + config.deadline : undefined,
+    circuitKey: breaker?.keyFor(url) ?? url,
+    revalidation,
+    progress,
+    endpoints: Array.isArray(config.endpoints) ? new EndpointPool(config.endpoints, { clock: config.clock }) : config.endpoints,
+    triedEndpoints: new Set()
+  };
+  const { callerSignal, deadlineAt, circuitKey } = call;
+  // Hedging sends duplicate requests, so only idempotent ones with a replayable body qualify
+  const hedge = config.hedge && canRetryMethod && replayable ? config.hedge : undefined;
+  let hedgesSent = 0;
+  let lastError: Error | null = null;
+  let previousDelay = 0;
+  let stopReason: StopReason = 'exhausted';
+  const history: AttemptRecord[] = [];
+
+  const recordFailure = (attempt: number, startedAt: number, error: Error): void => {
+    history.push({
+      attempt,
+      startedAt,
+      duration: config.clock.now() - startedAt,
+      ...(error instanceof HttpError ? { status: error.status } : {}),
+      error
+    });
+  };
+
+  const succeed = async (
+    { data, headers, cacheAge, endpoint }: Extract<AttemptOutcome<T>, { ok: true }>,
+    attempt: number,
+    winningHedge?: number
+  ): Promise<FetchWithRetryResult<T>> => {
+    const duration = config.clock.now() - startTime;
+    const fromCache = cacheAge !== undefined;
+
+    writeLog(
+      config.logger,
+      'info',
+      fromCache
+        ? `✅ Cached data for ${url} still valid on attempt ${attempt} (${duration}ms)`
+        : `✅ Successfully fetched data on attempt ${attempt} (${duration}ms)`,
+      { url, attempt, duration }
+    );
+
+    const result: FetchWithRetryResult<T> = {
+      data,
+      attempts: attempt,
+      duration,
+      succeededOnRetry: attempt > 1,
+      fromCache,
+      headers,
+      ...(fromCache ? { cacheAge } : {}),
+      ...(hedge ? { hedges: hedgesSent, winningHedge: winningHedge ?? 0 } : {}),
+      ...(endpoint ? { endpoint } : {})
+    };
+
+    await config.onSuccess?.({ url, result });
+    return result;
+  };
+
+  // However late it comes, an abort ends the call with AbortError, carrying the attempts made so far
+  const aborted = (): AbortError => {
+    writeLog(config.logger, 'warn', `🛑 Call to ${url} aborted after ${history.length} attempts`, { url, attempts: history.length });
+    return new AbortError(`Request to ${url} was aborted`, callerSignal?.reason, history);
+  };
+
+  throwIfAborted(url, callerSignal);
+  config.retryBudget?.recordRequest();
+
+  for (let attempt = 1; attempt <= config.maxRetries + 1; attempt++) {
+    if (deadlineAt !== undefined && deadlineAt - config.clock.now() <= 0) {
+      lastError = new TimeoutError(url, config.deadline!, 'deadline');
+      break;
+    }
 
-      // Check if we should retry
-      if (attempt <= config.maxRetries && shouldRetryRequest(error, config)) {
-        const retryDelay = calculateDelay(attempt, config);
-        console.warn(`⚠️ Attempt ${attempt} failed: ${lastError.message}. Retrying in ${retryDelay}ms...`);
-        
-        await delay(retryDelay);
-        continue;
+    await config.onAttempt?.({ url, attempt, maxAttempts: config.maxRetries + 1 });
+    progress.attempts = attempt;
+
+    let outcome: AttemptOutcome<T>;
+    let winningHedge: number | undefined;
+    const attemptStartedAt = config.clock.now();
+
+    try {
+      if (hedge) {
+        const hedged = await runHedged(
+          (signal, index) => sendHedge(call, attempt, signal, index),
+          resolveHedgeDelay(url, hedge),
+          hedge.maxAttempts ?? 2,
+          callerSignal,
+          config.clock
+        );
+        outcome = hedged.outcome;
+        winningHedge = hedged.index;
+        hedgesSent += hedged.hedges;
+      } else {
+        outcome = await sendAttempt(call, attempt, callerSignal);
+      }
+    } catch (error) {
+      // The deadline passed before the request could be sent
+      if (error instanceof TimeoutError && error.kind === 'deadline') {
+        lastError = error;
+        break;
+      }
+      if (error instanceof AbortError) {
+        recordFailure(attempt, attemptStartedAt, error);
+        throw aborted();
       }
+      // A retry refused before it was sent (open circuit, queue timeout, limiter error) keeps the history too
+      if (attempt === 1) {
+        throw error;
+      }
+      lastError = error instanceof Error ? error : new NetworkError('Unknown error before sending the request', error);
+      stopReason = 'non-retryable';
+      break;
+    }
+
+    if (outcome.ok) {
+      return succeed(outcome, attempt, winningHedge);
+    }
+
+    lastError = outcome.error;
+    recordFailure(attempt, attemptStartedAt, lastError);
+
+    // With endpoints, an open circuit only takes its own endpoint out of rotation
+    if (!call.endpoints && breaker?.getState(circuitKey) === 'open') {
+      writeLog(config.logger, 'warn', `⚠️ Attempt ${attempt} failed: ${lastError.message}. Circuit for ${circuitKey} is now open. Giving up.`, { url, attempt, circuitKey });
+      stopReason = 'non-retryable';
+      break;
+    }
 
-      // If we shouldn't retry or we're out of retries, break
+    if (outcome.authReplayRefused) {
+      writeLog(config.logger, 'warn', `⚠️ Attempt ${attempt} failed: ${lastError.message}. Not replaying with refreshed credentials: the request body was a stream and has been consumed.`, { url, attempt });
+      stopReason = 'body-not-replayable';
       break;
     }
+
+    // If we're out of retries or shouldn't retry, break
+    if (attempt > config.maxRetries) {
+      break;
+    }
+
+    if (!shouldRetryRequest(lastError, config)) {
+      stopReason = 'non-retryable';
+      break;
+    }
+
+    if (!canRetryMethod) {
+      writeLog(config.logger, 'warn', `⚠️ Attempt ${attempt} failed: ${lastError.message}. Not retrying ${getMethod(requestOptions)} without an idempotency key.`, { url, attempt });
+      stopReason = 'non-retryable';
+      break;
+    }
+
+    if (!replayable) {
+      writeLog(config.logger, 'warn', `⚠️ Attempt ${attempt} failed: ${lastError.message}. Not retrying: the request body was a stream and has been consumed.`, { url, attempt });
+      stopReason = 'body-not-replayable';
+      break;
+    }
+
+    const serverDelay = getRetryAfterDelay(lastError, config);
+
+    if (serverDelay !== undefined && config.maxRetryAfter !== undefined && serverDelay > config.maxRetryAfter) {
+      writeLog(config.logger, 'warn', `⚠️ Server asked to retry in ${serverDelay}ms, more than maxRetryAfter (${config.maxRetryAfter}ms). Giving up.`, { url, attempt, serverDelay });
+      stopReason = 'non-retryable';
+      break;
+    }
+
+    const retryDelay = serverDelay !== undefined
+      ? Math.min(serverDelay, config.maxDelay)
+      : calculateDelay(attempt, config, lastError, previousDelay);
+    previousDelay = retryDelay;
+
+    if (deadlineAt !== undefined && config.clock.now() + retryDelay >= deadlineAt) {
+      writeLog(config.logger, 'warn', `⚠️ Attempt ${attempt} failed: ${lastError.message}. Next retry would pass the deadline. Giving up.`, { url, attempt });
+      break;
+    }
+
+    if (config.retryBudget && !config.retryBudget.tryRetry()) {
+      writeLog(config.logger, 'warn', `⚠️ Attempt ${attempt} failed: ${lastError.message}. Retry denied by retry budget.`, { url, attempt });
+      stopReason = 'budget-denied';
+      break;
+    }
+
+    if (await config.onRetry?.({ url, error: lastError, attempt, delay: retryDelay }) === false) {
+      writeLog(config.logger, 'warn', `⚠️ Attempt ${attempt} failed: ${lastError.message}. Retry vetoed by onRetry hook.`, { url, attempt });
+      stopReason = 'non-retryable';
+      break;
+    }
+
+    writeLog(config.logger, 'warn', `⚠️ Attempt ${attempt} failed: ${lastError.message}. Retrying in ${retryDelay}ms...`, { url, attempt, delay: retryDelay });
+    progress.instrument?.retry?.({ attempt, delay: retryDelay, reason: failureReason(lastError), error: lastError });
+    history[history.length - 1].delay = retryDelay;
+
+    const sleptAt = config.clock.now();
+    try {
+      await config.clock.sleep(retryDelay, callerSignal);
+    } catch {
+      // Sleeping only fails when the caller aborts
+      throw aborted();
+    } finally {
+      progress.backoff += config.clock.now() - sleptAt;
+    }
+  }
+
+  const duration = config.clock.now() - startTime;
+  writeLog(config.logger, 'error', `❌ Giving up on ${url} after ${history.length} attempts (${stopReason}, ${duration}ms)`, { url, duration, stopReason });
+
+  const failure = new MaxRetriesError(url, history.length, lastError!, stopReason, history);
+  await config.onGiveUp?.({ url, error: failure });
+  throw failure;
+}
+
+/**
+ * Sends one copy of a hedged request. Hedges beyond the first that cannot get
+ * through the circuit breaker or scheduler count as failed copies rather than
+ * failing the whole attempt.
+ * @param call - Per-call state
+ * @param attempt - Attempt number (1-based)
+ * @param signal - This copy's signal
+ * @param index - 0 for the original request, 1+ for hedges
+ * @returns The copy's outcome
+ */
+async function sendHedge<T>(
+  call: CallContext<T>,
+  attempt: number,
+  signal: AbortSignal,
+  index: number
+): Promise<AttemptOutcome<T>> {
+  if (index > 0) {
+    writeLog(call.config.logger, 'debug', `🔀 Hedging attempt ${attempt} to ${call.url} with copy ${index + 1}`, { url: call.url, attempt, hedge: index });
   }
 
-  const duration = Date.now() - startTime;
-  console.error(`❌ All ${config.maxRetries} retry attempts failed for ${url} (${duration}ms)`);
-  
-  throw new MaxRetriesError(url, config.maxRetries + 1, lastError!);
+  try {
+    return await sendAttempt(call, attempt, signal, index);
+  } catch (error) {
+    if (index > 0 && (error instanceof CircuitOpenError || error instanceof QueueTimeoutError)) {
+      return { ok: false, error };
+    }
+    throw error;
+  }
 }
 
 /**
@@ -115,7 +860,25 @@ export async function fetchWithRetry<T = any>(
  * @param defaultConfig - Default retry configuration
  * @returns Configured fetch function
  */
-export function createFetcher<T = any>(defaultConfig: Partial<RetryConfig> = {}) {
-  return (url: string, options?: RequestInit, retryConfig?: Partial<RetryConfig>) =>
-    fetchWithRetry<T>(url, options, { ...defaultConfig, ...retryConfig });
-}
\ No newline at end of file
+export function createFetcher<T = any>(defaultConfig: Partial<RetryConfig<T>> = {}): Fetcher<T> {
+  const clockOption = defaultConfig.clock ? { clock: defaultConfig.clock } : {};
+  const fetcherConfig: Partial<RetryConfig<T>> = {
+    ...defaultConfig,
+    // Each fetcher gets its own cache and single-flight group rather than the process-wide defaults
+    ...(defaultConfig.cache === true ? { cache: new ResponseCache(clockOption) } : {}),
+    ...(defaultConfig.singleFlight === true ? { singleFlight: new SingleFlight() } : {}),
+    // A list of endpoints shares one pool, so health carries over between calls
+    ...(Array.isArray(defaultConfig.endpoints) ? { endpoints: new EndpointPool(defaultConfig.endpoints, clockOption) } : {})
+  };
+
+  const fetcher = (url: string, options?: RequestInit, retryConfig?: Partial<RetryConfig<T>>) =>
+    fetchWithRetry<T>(url, options, { ...fetcherConfig, ...retryConfig });
+
+  return Object.assign(fetcher, {
+    stats: (): FetcherStats => ({
+      ...(fetcherConfig.scheduler ? { scheduler: fetcherConfig.scheduler.stats() } : {}),
+      ...(fetcherConfig.retryBudget ? { retryBudget: fetcherConfig.retryBudget.stats() } : {}),
+      ...(fetcherConfig.endpoints instanceof EndpointPool ? { endpoints: fetcherConfig.endpoints.snapshot() } : {})
+    })
+  });
+}
@@ -0,0 +1,167 @@
+import { Clock, systemClock } from './clock';
+import { originOf } from './url';
+
+/**
+ * Configuration options for hedged requests
+ */
+export interface HedgeOptions {
+  /**
+   * How long to wait for an answer before sending another copy of the request.
+   * A number of milliseconds, or a latency percentile of recent successful
+   * requests to the same origin with a fallback until enough samples exist.
+   */
+  delay: number | { percentile: number; fallback: number; minSamples?: number };
+  /** Copies of the request in flight at most, including the first (default: 2) */
+  maxAttempts?: number;
+  /** Where latencies for percentile delays are recorded (default: a process-wide tracker) */
+  latencyTracker?: LatencyTracker;
+}
+
+/**
+ * Result of one request copy; hedging only needs to know whether it succeeded
+ */
+export interface HedgeOutcome {
+  ok: boolean;
+}
+
+/**
+ * Keeps a bounded sample of recent latencies per origin
+ */
+export class LatencyTracker {
+  private readonly samples = new Map<string, number[]>();
+
+  constructor(private readonly sampleSize: number = 100) {}
+
+  /**
+   * Records the latency of a successful request
+   * @param url - The URL that was fetched
+   * @param latency - Time to a usable response, in milliseconds
+   */
+  record(url: string, latency: number): void {
+    const key = originOf(url);
+    const samples = this.samples.get(key) ?? [];
+    samples.push(latency);
+    if (samples.length > this.sampleSize) {
+      samples.shift();
+    }
+    this.samples.set(key, samples);
+  }
+
+  /**
+   * Returns a latency percentile for an origin
+   * @param url - Any URL on the origin
+   * @param percentile - Percentile between 0 and 100
+   * @param minSamples - Samples required before answering (default: 20)
+   * @returns Latency in milliseconds, or undefined with too few samples
+   */
+  percentile(url: string, percentile: number, minSamples: number = 20): number | undefined {
+    const samples = this.samples.get(originOf(url));
+    if (!samples || samples.length < Math.max(1, minSamples)) {
+      return undefined;
+    }
+
+    const sorted = [...samples].sort((a, b) => a - b);
+    const index = Math.min(sorted.length - 1, Math.ceil((percentile / 100) * sorted.length) - 1);
+    return sorted[Math.max(0, index)];
+  }
+}
+
+/**
+ * Tracker used when HedgeOptions has no latencyTracker
+ */
+export const defaultLatencyTracker = new LatencyTracker();
+
+/**
+ * Works out how long to wait before each hedge
+ * @param url - The URL being fetched
+ * @param options - Hedge configuration
+ * @returns Delay in milliseconds
+ */
+export const resolveHedgeDelay = (url: string, options: HedgeOptions): number => {
+  if (typeof options.delay === 'number') {
+    return options.delay;
+  }
+
+  const tracker = options.latencyTracker ?? defaultLatencyTracker;
+  return tracker.percentile(url, options.delay.percentile, options.delay.minSamples) ?? options.delay.fallback;
+};
+
+/**
+ * Sends a request, then another copy each time `hedgeDelay` passes without
+ * a successful answer, up to `maxAttempts` copies. The first successful
+ * outcome wins and the other copies are aborted. When every copy fails, the
+ * first copy's outcome is returned. A rejection (e.g. the caller aborting)
+ * rejects the whole attempt unless a copy has already won.
+ * @param send - Sends one copy; `index` is 0 for the original request
+ * @param hedgeDelay - Milliseconds between copies
+ * @param maxAttempts - Copies allowed in flight
+ * @param signal - The caller's signal; aborting it aborts every copy
+ * @param clock - Schedules the hedges (default: the system clock)
+ * @returns The winning (or first failed) outcome, which copy it came from and how many hedges were sent
+ */
+export const runHedged = <O extends HedgeOutcome>(
+  send: (signal: AbortSignal, index: number) => Promise<O>,
+  hedgeDelay: number,
+  maxAttempts: number,
+  signal: AbortSignal | null | undefined,
+  clock: Clock = systemClock
+): Promise<{ outcome: O; index: number; hedges: number }> =>
+  new Promise((resolve, reject) => {
+    const controllers: AbortController[] = [];
+    const failures: O[] = [];
+    let pending = 0;
+    let settled = false;
+    let timer: unknown;
+
+    const finish = (): void => {
+      settled = true;
+      clock.clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+      controllers.forEach(controller => controller.abort());
+    };
+
+    const onAbort = (): void => controllers.forEach(controller => controller.abort(signal?.reason));
+
+    const launch = (): void => {
+      const index = controllers.length;
+      const controller = new AbortController();
+      controllers.push(controller);
+      pending++;
+
+      if (index + 1 < maxAttempts) {
+        timer = clock.setTimeout(launch, hedgeDelay);
+      }
+
+      send(controller.signal, index).then(
+        outcome => {
+          pending--;
+          if (settled) {
+            return;
+          }
+
+          if (outcome.ok) {
+            finish();
+            resolve({ outcome, index, hedges: controllers.length - 1 });
+            return;
+          }
+
+          failures[index] = outcome;
+          if (pending === 0) {
+            // Every copy sent so far failed; let the retry loop decide what next
+            finish();
+            resolve({ outcome: failures.find(Boolean)!, index: failures.findIndex(Boolean), hedges: controllers.length - 1 });
+          }
+        },
+        error => {
+          pending--;
+          if (!settled) {
+            finish();
+            reject(error);
+          }
+        }
+      );
+    };
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+    launch();
+  });
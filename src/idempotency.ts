@@ -0,0 +1,77 @@
+import { RetryConfig } from './types';
+
+/**
+ * Methods that never change server state and so never need an idempotency key
+ */
+const SAFE_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+/**
+ * Returns the upper-cased request method
+ * @param options - Fetch options
+ * @returns HTTP method, GET when unset
+ */
+export const getMethod = (options: RequestInit): string =>
+  (options.method ?? 'GET').toUpperCase();
+
+/**
+ * Produces the idempotency key for one logical call
+ * @param config - Retry configuration
+ * @returns The key, or undefined when idempotency keys are disabled
+ */
+const resolveIdempotencyKey = (config: RetryConfig): string | undefined => {
+  const { idempotencyKey } = config;
+
+  if (idempotencyKey === undefined || idempotencyKey === false) {
+    return undefined;
+  }
+
+  if (idempotencyKey === true) {
+    return crypto.randomUUID();
+  }
+
+  return typeof idempotencyKey === 'function' ? idempotencyKey() : idempotencyKey;
+};
+
+/**
+ * Adds the idempotency key header to unsafe requests when enabled. Called once
+ * per logical call so every attempt reuses the same key. A key already present
+ * in the caller's headers is left untouched.
+ * @param options - Fetch options
+ * @param config - Retry configuration
+ * @returns Fetch options to use for every attempt
+ */
+export const withIdempotencyKey = (options: RequestInit, config: RetryConfig): RequestInit => {
+  if (SAFE_METHODS.includes(getMethod(options))) {
+    return options;
+  }
+
+  const headers = new Headers(options.headers);
+  if (headers.has(config.idempotencyKeyHeader)) {
+    return options;
+  }
+
+  const key = resolveIdempotencyKey(config);
+  if (key === undefined) {
+    return options;
+  }
+
+  headers.set(config.idempotencyKeyHeader, key);
+  return { ...options, headers };
+};
+
+/**
+ * Determines whether the request method allows retries. Methods outside
+ * `retryMethods` are only retried when the request carries an idempotency key.
+ * @param options - Fetch options, after `withIdempotencyKey`
+ * @param config - Retry configuration
+ * @returns boolean indicating whether failed attempts may be retried
+ */
+export const isRetryableMethod = (options: RequestInit, config: RetryConfig): boolean => {
+  const method = getMethod(options);
+
+  if (config.retryMethods.some(allowed => allowed.toUpperCase() === method)) {
+    return true;
+  }
+
+  return new Headers(options.headers).has(config.idempotencyKeyHeader);
+};
@@ -1,4 +1,105 @@
 export { fetchWithRetry, createFetcher } from './fetchWithRetry';
+export { fetchAllWithRetry, streamAllWithRetry } from './batch';
+export type { BatchRequest, BatchResult, BatchProgress, BatchOptions, BatchStreamOptions } from './batch';
+export { downloadWithRetry } from './download';
+export type { DownloadOptions, DownloadResult, DownloadProgress, DownloadSink } from './download';
+export { paginateWithRetry, linkHeaderPagination, cursorPagination, offsetPagination } from './paginate';
+export type {
+  PaginateOptions,
+  PaginationStrategy,
+  PageContext,
+  Page,
+  PageFetcher,
+  ItemsPathOptions,
+  CursorPaginationOptions,
+  OffsetPaginationOptions
+} from './paginate';
 export { mockApiCall, resetMockAttemptCount } from './mock/mockApi';
-export { MaxRetriesError, NetworkError, HttpError } from './errors';
-export type { RetryConfig, FetchWithRetryResult } from './types';
\ No newline at end of file
+export { createMockFetch } from './mock/mockFetch';
+export type {
+  MockFetch,
+  MockFetchOptions,
+  MockRoute,
+  MockOutcome,
+  MockResponseOutcome,
+  MockNetworkErrorOutcome,
+  MockHangOutcome,
+  MockRandomScript,
+  MockCall
+} from './mock/mockFetch';
+export { startFaultServer, failTimes } from './mock/faultServer';
+export type { FaultServer, FaultRoute, FaultResponse, ReceivedRequest } from './mock/faultServer';
+export {
+  MaxRetriesError,
+  NetworkError,
+  DnsError,
+  ConnectionError,
+  TlsError,
+  HttpError,
+  TimeoutError,
+  AbortError,
+  CircuitOpenError,
+  ResponseParseError,
+  ValidationError,
+  QueueTimeoutError,
+  PaginationError,
+  DownloadError,
+  ChecksumError
+} from './errors';
+export type { StopReason, AttemptRecord } from './errors';
+export { CircuitBreaker } from './circuitBreaker';
+export type { CircuitBreakerOptions, CircuitSnapshot, CircuitState } from './circuitBreaker';
+export { SingleFlight, defaultSingleFlightKey } from './singleFlight';
+export type { SingleFlightOptions, SingleFlightKeyFunction } from './singleFlight';
+export { ResponseCache, MemoryCacheStore, defaultCacheKey } from './cache';
+export type { CacheEntry, CacheStore, ResponseCacheOptions, CacheKeyFunction } from './cache';
+export { RequestScheduler } from './scheduler';
+export type { SchedulerOptions, SchedulerStats, RequestPriority } from './scheduler';
+export { RateLimiter } from './rateLimiter';
+export type { TokenBucketOptions } from './rateLimiter';
+export { EndpointPool } from './endpoints';
+export type { EndpointPoolOptions, EndpointPolicy, EndpointSnapshot } from './endpoints';
+export { RetryBudget } from './retryBudget';
+export type { RetryBudgetOptions, RetryBudgetStats } from './retryBudget';
+export { LatencyTracker } from './hedging';
+export type { HedgeOptions } from './hedging';
+export { compose } from './middleware';
+export type {
+  Middleware,
+  CallMiddleware,
+  AttemptMiddleware,
+  CallMiddlewareContext,
+  AttemptMiddlewareContext,
+  MiddlewareConfig
+} from './middleware';
+export type { AuthOptions } from './auth';
+export type { ResponseType, ResponseValidator } from './responseParser';
+export { MetricsCollector } from './metrics';
+export type { MetricsCollectorOptions } from './metrics';
+export { createTracingInstrumentation } from './tracing';
+export type { TracerLike, SpanLike, SpanAttributeValue, TracingOptions } from './tracing';
+export type {
+  Instrumentation,
+  CallInstrumentation,
+  CallStartEvent,
+  AttemptStartEvent,
+  AttemptEndEvent,
+  RetryScheduledEvent,
+  CallEndEvent
+} from './instrumentation';
+export { systemClock, VirtualClock } from './clock';
+export type { Clock } from './clock';
+export { silentLogger } from './logger';
+export type { Logger, LevelLogger, ConsoleLogger, LogLevel } from './logger';
+export type {
+  RetryConfig,
+  FetchWithRetryResult,
+  BackoffStrategyName,
+  BackoffFunction,
+  AttemptEvent,
+  RetryEvent,
+  SuccessEvent,
+  GiveUpEvent,
+  Fetcher,
+  FetcherStats
+} from './types';
\ No newline at end of file
@@ -0,0 +1,152 @@
+import { HttpError, MaxRetriesError, StopReason } from './errors';
+import { originOf } from './url';
+
+/**
+ * Passed to `startCall` when a logical call starts sending requests
+ */
+export interface CallStartEvent {
+  url: string;
+  method: string;
+  /** Origin of the URL, e.g. 'https://api.example.com' */
+  origin: string;
+}
+
+/**
+ * Passed to `attemptStart` just before an attempt's request is sent
+ */
+export interface AttemptStartEvent {
+  /** Attempt number (1-based) */
+  attempt: number;
+  /** Which hedged copy of the attempt this is (1+); absent for the original request */
+  hedge?: number;
+}
+
+/**
+ * Passed to `attemptEnd` when an attempt's request finishes
+ */
+export interface AttemptEndEvent {
+  /** Attempt number (1-based) */
+  attempt: number;
+  /** Which hedged copy of the attempt this is (1+); absent for the original request */
+  hedge?: number;
+  /** Milliseconds from sending the request to the body being read */
+  duration: number;
+  /** Response status, when a response arrived */
+  status?: number;
+  /** Why the attempt failed, if it did */
+  error?: Error;
+}
+
+/**
+ * Passed to `retry` once a retry has been decided, before the backoff delay
+ */
+export interface RetryScheduledEvent {
+  /** The attempt that failed (1-based) */
+  attempt: number;
+  /** Backoff delay in milliseconds */
+  delay: number;
+  /** Short label for the failure, e.g. 'http_503' or 'TimeoutError' */
+  reason: string;
+  error: Error;
+}
+
+/**
+ * Passed to `end` when the logical call finishes
+ */
+export interface CallEndEvent {
+  /** `give-up` when retries ran out or stopped; `error` for aborts and other thrown errors */
+  outcome: 'success' | 'give-up' | 'error';
+  /** Attempts started */
+  attempts: number;
+  /** Milliseconds from the call starting to it finishing */
+  duration: number;
+  /** Milliseconds spent in backoff delays */
+  backoff: number;
+  /** Set when the call ended with MaxRetriesError */
+  stopReason?: StopReason;
+  /** The error the call failed with */
+  error?: Error;
+  /** Set when the call joined an identical one in flight (single-flight) and sent no requests of its own */
+  shared?: boolean;
+}
+
+/**
+ * Receives the events of one logical call
+ */
+export interface CallInstrumentation {
+  attemptStart?(event: AttemptStartEvent): void;
+  attemptEnd?(event: AttemptEndEvent): void;
+  retry?(event: RetryScheduledEvent): void;
+  end?(event: CallEndEvent): void;
+}
+
+/**
+ * Observes calls made by fetchWithRetry. `startCall` runs once per logical
+ * call that goes to the network and returns the receiver for that call's
+ * events, so per-call state (such as a span) can live in a closure.
+ */
+export interface Instrumentation {
+  startCall(event: CallStartEvent): CallInstrumentation | void;
+}
+
+/**
+ * Short, low-cardinality label for why an attempt failed
+ * @param error - The attempt's error
+ * @returns `http_<status>` for HTTP errors, otherwise the error's name
+ */
+export const failureReason = (error: Error): string =>
+  error instanceof HttpError ? `http_${error.status}` : error.name;
+
+/**
+ * Starts instrumentation for a call, fanning events out to several instrumentations
+ * @param instrumentation - Configured instrumentation(s), if any
+ * @param url - The URL being fetched
+ * @param method - Request method
+ * @returns Receiver for the call's events, or undefined when nothing is listening
+ */
+export const startCallInstrumentation = (
+  instrumentation: Instrumentation | Instrumentation[] | undefined,
+  url: string,
+  method: string
+): CallInstrumentation | undefined => {
+  if (!instrumentation) {
+    return undefined;
+  }
+
+  const event: CallStartEvent = { url, method, origin: originOf(url) };
+  const receivers = (Array.isArray(instrumentation) ? instrumentation : [instrumentation])
+    .map(each => each.startCall(event))
+    .filter((receiver): receiver is CallInstrumentation => !!receiver);
+
+  if (receivers.length <= 1) {
+    return receivers[0];
+  }
+
+  return {
+    attemptStart: e => receivers.forEach(receiver => receiver.attemptStart?.(e)),
+    attemptEnd: e => receivers.forEach(receiver => receiver.attemptEnd?.(e)),
+    retry: e => receivers.forEach(receiver => receiver.retry?.(e)),
+    end: e => receivers.forEach(receiver => receiver.end?.(e))
+  };
+};
+
+/**
+ * Builds the end event for a call that threw
+ * @param error - What the call threw
+ * @param attempts - Attempts started
+ * @param duration - Call duration in milliseconds
+ * @param backoff - Time spent in backoff in milliseconds
+ * @returns End event
+ */
+export const failedCallEvent = (error: unknown, attempts: number, duration: number, backoff: number): CallEndEvent => {
+  if (error instanceof MaxRetriesError) {
+    return { outcome: 'give-up', attempts, duration, backoff, stopReason: error.stopReason, error };
+  }
+  return {
+    outcome: 'error',
+    attempts,
+    duration,
+    backoff,
+    error: error instanceof Error ? error : new Error(String(error))
+  };
+};
@@ -0,0 +1,73 @@
+/**
+ * Severity of a log message
+ */
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+/**
+ * Console-compatible logger, e.g. `console`, pino or winston instances
+ */
+export interface ConsoleLogger {
+  debug?: (...args: unknown[]) => void;
+  info?: (...args: unknown[]) => void;
+  log?: (...args: unknown[]) => void;
+  warn: (...args: unknown[]) => void;
+  error: (...args: unknown[]) => void;
+}
+
+/**
+ * Level-based logger receiving structured context alongside the message
+ */
+export type LevelLogger = (level: LogLevel, message: string, context?: Record<string, unknown>) => void;
+
+/**
+ * Anything fetchWithRetry can log to
+ */
+export type Logger = ConsoleLogger | LevelLogger;
+
+const noop = (): void => undefined;
+
+/**
+ * Logger that discards everything
+ */
+export const silentLogger: ConsoleLogger = {
+  debug: noop,
+  info: noop,
+  log: noop,
+  warn: noop,
+  error: noop
+};
+
+/**
+ * Writes a message to a logger of either shape
+ * @param logger - Target logger
+ * @param level - Severity
+ * @param message - Human-readable message
+ * @param context - Structured details, only passed to level-based loggers
+ */
+export const writeLog = (
+  logger: Logger,
+  level: LogLevel,
+  message: string,
+  context?: Record<string, unknown>
+): void => {
+  if (typeof logger === 'function') {
+    logger(level, message, context);
+    return;
+  }
+
+  // Called as methods so loggers that rely on `this` (pino, winston, classes) keep it
+  switch (level) {
+    case 'debug':
+      logger.debug ? logger.debug(message) : logger.log?.(message);
+      break;
+    case 'info':
+      logger.info ? logger.info(message) : logger.log?.(message);
+      break;
+    case 'warn':
+      logger.warn(message);
+      break;
+    case 'error':
+      logger.error(message);
+      break;
+  }
+};
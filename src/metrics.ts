@@ -0,0 +1,184 @@
+import type { CallInstrumentation, CallStartEvent, Instrumentation } from './instrumentation';
+import { failureReason } from './instrumentation';
+
+/**
+ * Configuration options for the metrics collector
+ */
+export interface MetricsCollectorOptions {
+  /** Prefix for every metric name (default: 'fetch_retry') */
+  prefix: string;
+  /** Histogram bucket upper bounds in seconds (default: 5ms to 10s) */
+  buckets: number[];
+}
+
+/**
+ * Label values of one series
+ */
+type Labels = Record<string, string>;
+
+/**
+ * Default metrics collector configuration
+ */
+const DEFAULT_METRICS_OPTIONS: MetricsCollectorOptions = {
+  prefix: 'fetch_retry',
+  buckets: [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10]
+};
+
+/**
+ * Formats labels for the Prometheus text format
+ */
+const formatLabels = (labels: Labels): string => {
+  const pairs = Object.entries(labels).map(([name, value]) =>
+    `${name}="${value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"')}"`
+  );
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+};
+
+/**
+ * A counter with one value per label set
+ */
+class Counter {
+  private readonly series = new Map<string, { labels: Labels; value: number }>();
+
+  constructor(readonly name: string, readonly help: string) {}
+
+  inc(labels: Labels, by: number = 1): void {
+    const key = formatLabels(labels);
+    const entry = this.series.get(key) ?? { labels, value: 0 };
+    entry.value += by;
+    this.series.set(key, entry);
+  }
+
+  get(labels: Labels): number {
+    return this.series.get(formatLabels(labels))?.value ?? 0;
+  }
+
+  render(): string[] {
+    return [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} counter`,
+      ...[...this.series.values()].map(({ labels, value }) => `${this.name}${formatLabels(labels)} ${value}`)
+    ];
+  }
+}
+
+/**
+ * A cumulative histogram with one set of buckets per label set
+ */
+class Histogram {
+  private readonly series = new Map<string, { labels: Labels; counts: number[]; sum: number; count: number }>();
+
+  constructor(readonly name: string, readonly help: string, private readonly buckets: number[]) {}
+
+  observe(labels: Labels, value: number): void {
+    const key = formatLabels(labels);
+    const entry = this.series.get(key) ?? { labels, counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+    this.buckets.forEach((bound, index) => {
+      if (value <= bound) {
+        entry.counts[index]++;
+      }
+    });
+    entry.sum += value;
+    entry.count++;
+    this.series.set(key, entry);
+  }
+
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`];
+
+    for (const { labels, counts, sum, count } of this.series.values()) {
+      this.buckets.forEach((bound, index) => {
+        lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${counts[index]}`);
+      });
+      lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`);
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${sum}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${count}`);
+    }
+    return lines;
+  }
+}
+
+/**
+ * In-memory metrics for fetchWithRetry calls, per origin: calls by outcome,
+ * attempts by status, retries by reason, backoff time, give-ups by stop
+ * reason, and latency histograms. `metrics()` renders the Prometheus text
+ * format for a `/metrics` endpoint.
+ *
+ * @example
+ * const metrics = new MetricsCollector();
+ * const api = createFetcher({ instrumentation: metrics });
+ * app.get('/metrics', (req, res) => res.type('text/plain').send(metrics.metrics()));
+ */
+export class MetricsCollector implements Instrumentation {
+  public readonly options: MetricsCollectorOptions;
+  private readonly calls: Counter;
+  private readonly attempts: Counter;
+  private readonly retries: Counter;
+  private readonly giveUps: Counter;
+  private readonly backoff: Counter;
+  private readonly attemptsPerCall: Histogram;
+  private readonly attemptDuration: Histogram;
+  private readonly callDuration: Histogram;
+
+  constructor(options: Partial<MetricsCollectorOptions> = {}) {
+    this.options = { ...DEFAULT_METRICS_OPTIONS, ...options };
+    const { prefix, buckets } = this.options;
+
+    this.calls = new Counter(`${prefix}_calls_total`, 'Logical calls by outcome');
+    this.attempts = new Counter(`${prefix}_attempts_total`, 'Attempts by response status, or error name when no response arrived');
+    this.retries = new Counter(`${prefix}_retries_total`, 'Retries by the failure that caused them');
+    this.giveUps = new Counter(`${prefix}_give_ups_total`, 'Calls that gave up, by stop reason');
+    this.backoff = new Counter(`${prefix}_backoff_seconds_total`, 'Time spent waiting between attempts');
+    this.attemptsPerCall = new Histogram(`${prefix}_call_attempts`, 'Attempts per logical call', [1, 2, 3, 4, 5, 7, 10]);
+    this.attemptDuration = new Histogram(`${prefix}_attempt_duration_seconds`, 'Latency of single attempts', buckets);
+    this.callDuration = new Histogram(`${prefix}_call_duration_seconds`, 'Latency of logical calls, backoff included', buckets);
+  }
+
+  startCall({ origin }: CallStartEvent): CallInstrumentation {
+    return {
+      attemptEnd: ({ duration, status, error }) => {
+        const result = status !== undefined ? String(status) : error ? error.name : 'unknown';
+        this.attempts.inc({ origin, status: result });
+        this.attemptDuration.observe({ origin }, duration / 1000);
+      },
+      retry: ({ error }) => {
+        this.retries.inc({ origin, reason: failureReason(error) });
+      },
+      end: ({ outcome, attempts, duration, backoff, stopReason, shared }) => {
+        this.calls.inc({ origin, outcome });
+        this.backoff.inc({ origin }, backoff / 1000);
+        if (stopReason) {
+          this.giveUps.inc({ origin, stop_reason: stopReason });
+        }
+        // A call that joined another one in flight made no attempts of its own
+        if (!shared) {
+          this.attemptsPerCall.observe({ origin }, attempts);
+        }
+        this.callDuration.observe({ origin }, duration / 1000);
+      }
+    };
+  }
+
+  /**
+   * Number of retries recorded for an origin and reason, e.g. ('https://api.example.com', 'http_503')
+   */
+  retryCount(origin: string, reason: string): number {
+    return this.retries.get({ origin, reason });
+  }
+
+  /**
+   * Renders every metric in the Prometheus text exposition format
+   */
+  metrics(): string {
+    return [
+      this.calls,
+      this.attempts,
+      this.retries,
+      this.giveUps,
+      this.backoff,
+      this.attemptsPerCall,
+      this.attemptDuration,
+      this.callDuration
+    ].flatMap(metric => metric.render()).join('\n') + '\n';
+  }
+}
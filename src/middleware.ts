@@ -0,0 +1,83 @@
+import type { RetryConfig, FetchWithRetryResult } from './types';
+
+/**
+ * Context for middleware that runs once per logical call, around the cache,
+ * single-flight and the whole retry loop
+ */
+export interface CallMiddlewareContext<T = any> {
+  /** URL to fetch; may be rewritten before calling next() */
+  url: string;
+  /** Fetch options for every attempt; may be replaced before calling next() */
+  options: RequestInit;
+  /** Resolved retry configuration for this call */
+  readonly config: Readonly<RetryConfig<T>>;
+  /** Set by next(); may be transformed afterwards, or set without calling next() to short-circuit */
+  result?: FetchWithRetryResult<T>;
+}
+
+/**
+ * Context for middleware that runs once per attempt (hedged copies included),
+ * around the underlying `fetch`
+ */
+export interface AttemptMiddlewareContext {
+  /** URL to fetch; may be rewritten before calling next() */
+  url: string;
+  /** Fetch options for this attempt, including its abort signal; may be replaced before calling next() */
+  request: RequestInit;
+  /** Attempt number (1-based) */
+  readonly attempt: number;
+  /** Set by next(); may be replaced afterwards, or set without calling next() to short-circuit */
+  response?: Response;
+}
+
+/**
+ * Koa-style middleware: do work, await next() to run the rest of the chain, do more work
+ */
+export type Middleware<C> = (ctx: C, next: () => Promise<void>) => Promise<void> | void;
+
+/**
+ * Middleware run once per logical call
+ */
+export type CallMiddleware<T = any> = Middleware<CallMiddlewareContext<T>>;
+
+/**
+ * Middleware run once per attempt
+ */
+export type AttemptMiddleware = Middleware<AttemptMiddlewareContext>;
+
+/**
+ * Ordered middleware chains, outermost first
+ */
+export interface MiddlewareConfig<T = any> {
+  /** Runs once per logical call, wrapping caching, deduplication and retries */
+  call?: CallMiddleware<T>[];
+  /** Runs before and after every attempt's `fetch` */
+  attempt?: AttemptMiddleware[];
+}
+
+/**
+ * Composes middleware into a single function that ends with `terminal`
+ * @param middleware - Middleware in order, outermost first
+ * @param terminal - Innermost step, run when the last middleware calls next()
+ * @returns Function running the whole chain for a context
+ */
+export const compose = <C>(middleware: Middleware<C>[], terminal: (ctx: C) => Promise<void>) =>
+  (ctx: C): Promise<void> => {
+    let lastIndex = -1;
+
+    const dispatch = async (index: number): Promise<void> => {
+      if (index <= lastIndex) {
+        throw new Error('next() called multiple times');
+      }
+      lastIndex = index;
+
+      const handler = middleware[index];
+      if (!handler) {
+        return terminal(ctx);
+      }
+
+      await handler(ctx, () => dispatch(index + 1));
+    };
+
+    return dispatch(0);
+  };
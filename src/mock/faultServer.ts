@@ -0,0 +1,221 @@
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { AddressInfo } from 'node:net';
+
+/**
+ * One scripted server response, with optional faults
+ */
+export interface FaultResponse {
+  /** HTTP status (default: 200) */
+  status?: number;
+  headers?: Record<string, string>;
+  /** Strings are sent as-is; other values are sent as JSON (default: no body) */
+  body?: unknown;
+  /** Sets `Retry-After`: seconds, or a string such as an HTTP date */
+  retryAfter?: number | string;
+  /** Milliseconds to wait before sending the status line and headers */
+  firstByteDelay?: number;
+  /** Sends only this many body bytes, then destroys the connection; `Content-Length` still announces the full body */
+  dropAfterBytes?: number;
+  /** Sends only this many body bytes, then keeps the connection open without sending more */
+  stallAfterBytes?: number;
+  /** Sends only this many body bytes as a complete response, e.g. to produce truncated JSON */
+  truncateAt?: number;
+  /** Answers `Range: bytes=N-` with 206 and the rest of the body, unless `If-Range` differs from the `ETag` header */
+  ranges?: boolean;
+}
+
+/**
+ * Responses for one path
+ */
+export interface FaultRoute {
+  /** Request path without the query string, e.g. '/users' */
+  path: string;
+  /** Only match this method */
+  method?: string;
+  /** Responses for the 1st, 2nd, ... matching request; the last one repeats */
+  responses: FaultResponse[];
+}
+
+/**
+ * A request the server received
+ */
+export interface ReceivedRequest {
+  method: string;
+  path: string;
+  headers: IncomingMessage['headers'];
+}
+
+/**
+ * A running fault-injection server
+ */
+export interface FaultServer {
+  /** Base URL, e.g. 'http://127.0.0.1:49152' */
+  readonly url: string;
+  readonly port: number;
+  /** Every request received so far, in order */
+  readonly requests: ReceivedRequest[];
+  /** Number of requests received for a path */
+  hits(path: string): number;
+  /** Clears recorded requests and restarts every route's sequence */
+  reset(): void;
+  /** Stops the server, dropping open connections */
+  close(): Promise<void>;
+}
+
+/**
+ * Builds a sequence that fails `times` times and then keeps succeeding
+ * @param times - Number of failures
+ * @param failure - Response for each failure (default: 503)
+ * @param success - Response once the failures are used up (default: 200 with `{ ok: true }`)
+ * @returns Responses for a FaultRoute
+ */
+export function failTimes(
+  times: number,
+  failure: FaultResponse = { status: 503 },
+  success: FaultResponse = { body: { ok: true } }
+): FaultResponse[] {
+  return [...Array.from({ length: times }, () => failure), success];
+}
+
+/**
+ * Serialises a scripted body and picks its default content type
+ */
+const encodeBody = (body: unknown): { bytes: Buffer; contentType?: string } => {
+  if (body === undefined) {
+    return { bytes: Buffer.alloc(0) };
+  }
+  if (typeof body === 'string') {
+    return { bytes: Buffer.from(body), contentType: 'text/plain; charset=utf-8' };
+  }
+  return { bytes: Buffer.from(JSON.stringify(body)), contentType: 'application/json' };
+};
+
+/**
+ * Start offset of a satisfiable `Range: bytes=N-` request, if the scripted response honours it
+ */
+const rangeStart = (req: IncomingMessage, scripted: FaultResponse, length: number): number | undefined => {
+  const range = /^bytes=(\d+)-$/.exec(req.headers.range ?? '');
+  const ifRange = req.headers['if-range'];
+  const etag = Object.entries(scripted.headers ?? {}).find(([name]) => name.toLowerCase() === 'etag')?.[1];
+  if (!scripted.ranges || !range || Number(range[1]) >= length) {
+    return undefined;
+  }
+  if (ifRange !== undefined && ifRange !== etag) {
+    return undefined;
+  }
+  return Number(range[1]);
+};
+
+/**
+ * Writes a scripted response, applying its faults
+ */
+const respond = async (req: IncomingMessage, res: ServerResponse, scripted: FaultResponse): Promise<void> => {
+  if (scripted.firstByteDelay) {
+    await new Promise(resolve => setTimeout(resolve, scripted.firstByteDelay));
+  }
+  if (res.destroyed) {
+    // The client gave up while we were stalling
+    return;
+  }
+
+  const { bytes, contentType } = encodeBody(scripted.body);
+  const start = rangeStart(req, scripted, bytes.length);
+  const full = start !== undefined ? bytes.subarray(start) : bytes;
+  const body = scripted.truncateAt !== undefined ? full.subarray(0, scripted.truncateAt) : full;
+
+  res.statusCode = start !== undefined ? 206 : scripted.status ?? 200;
+  if (start !== undefined) {
+    res.setHeader('Content-Range', `bytes ${start}-${bytes.length - 1}/${bytes.length}`);
+  }
+  if (contentType) {
+    res.setHeader('Content-Type', contentType);
+  }
+  if (scripted.retryAfter !== undefined) {
+    res.setHeader('Retry-After', String(scripted.retryAfter));
+  }
+  for (const [name, value] of Object.entries(scripted.headers ?? {})) {
+    res.setHeader(name, value);
+  }
+  res.setHeader('Content-Length', body.length);
+
+  if (scripted.dropAfterBytes !== undefined) {
+    res.flushHeaders();
+    res.write(body.subarray(0, scripted.dropAfterBytes), () => res.socket?.destroy());
+    return;
+  }
+
+  if (scripted.stallAfterBytes !== undefined) {
+    res.flushHeaders();
+    res.write(body.subarray(0, scripted.stallAfterBytes));
+    return;
+  }
+
+  res.end(body);
+};
+
+/**
+ * Starts a local HTTP server on an ephemeral port that answers from a
+ * script, injecting faults such as error statuses, slow first bytes,
+ * dropped or stalled connections and truncated bodies. Unknown paths get 404.
+ * @param routes - Scripted routes
+ * @returns The running server; call `close()` when done
+ *
+ * @example
+ * const server = await startFaultServer([{ path: '/data', responses: failTimes(2, { status: 503, retryAfter: 0 }) }]);
+ * await fetchWithRetry(`${server.url}/data`);
+ * server.hits('/data'); // 3
+ * await server.close();
+ */
+export async function startFaultServer(routes: FaultRoute[]): Promise<FaultServer> {
+  const requests: ReceivedRequest[] = [];
+  let routeHits = new Map<FaultRoute, number>();
+
+  const server = createServer((req, res) => {
+    const method = req.method ?? 'GET';
+    const path = new URL(req.url ?? '/', 'http://localhost').pathname;
+    requests.push({ method, path, headers: req.headers });
+
+    const route = routes.find(candidate =>
+      candidate.path === path && (!candidate.method || candidate.method.toUpperCase() === method)
+    );
+
+    let scripted: FaultResponse = { status: 404, body: 'Not Found' };
+    if (route && route.responses.length > 0) {
+      const hit = (routeHits.get(route) ?? 0) + 1;
+      routeHits.set(route, hit);
+      scripted = route.responses[Math.min(hit, route.responses.length) - 1];
+    }
+
+    // Drain the request body so the connection can be reused
+    req.resume();
+    req.on('end', () => {
+      respond(req, res, scripted).catch(() => res.socket?.destroy());
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(0, '127.0.0.1', () => {
+      server.off('error', reject);
+      resolve();
+    });
+  });
+
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    port,
+    requests,
+    hits: path => requests.filter(request => request.path === path).length,
+    reset: () => {
+      requests.length = 0;
+      routeHits = new Map();
+    },
+    close: () => new Promise((resolve, reject) => {
+      server.close(error => (error ? reject(error) : resolve()));
+      // Keep-alive connections from fetch would otherwise hold the server open
+      server.closeAllConnections();
+    })
+  };
+}
@@ -38,6 +38,7 @@ let attemptCount = 0;
  * Simulates an API call that randomly succeeds or fails
  * @param config - Mock API configuration
  * @returns Promise with mock response data
+ * @deprecated Outcomes are random and the attempt counter is shared; use createMockFetch
  */
 export async function mockApiCall(
   config: Partial<MockApiConfig> = {}
@@ -68,6 +69,7 @@ export async function mockApiCall(
 
 /**
  * Resets the attempt counter for testing
+ * @deprecated Use createMockFetch, whose state is per instance
  */
 export function resetMockAttemptCount(): void {
   attemptCount = 0;
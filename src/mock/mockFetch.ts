@@ -0,0 +1,278 @@
+import { Clock, systemClock } from '../clock';
+
+/**
+ * A scripted HTTP response
+ */
+export interface MockResponseOutcome {
+  /** HTTP status (default: 200) */
+  status?: number;
+  statusText?: string;
+  headers?: HeadersInit;
+  /** Strings are sent as-is; other values are sent as JSON (default: no body) */
+  body?: unknown;
+  /** Milliseconds before the response is produced */
+  delay?: number;
+}
+
+/**
+ * A scripted network failure; `fetch` rejects with a TypeError like a real
+ * DNS or connection failure
+ */
+export interface MockNetworkErrorOutcome {
+  /** The TypeError's `cause`; a code such as 'ECONNRESET' is classified like Node's own errors */
+  networkError: string | Error;
+  delay?: number;
+}
+
+/**
+ * A request that never answers until it is aborted
+ */
+export interface MockHangOutcome {
+  hang: true;
+}
+
+/**
+ * One scripted result for a request
+ */
+export type MockOutcome = MockResponseOutcome | MockNetworkErrorOutcome | MockHangOutcome;
+
+/**
+ * Seeded random outcomes for a route
+ */
+export interface MockRandomScript {
+  /** Probability (0-1) that a call fails */
+  failureRate: number;
+  /** Outcome for successful calls (default: 200 with `{ ok: true }`) */
+  success?: MockOutcome;
+  /** Outcome for failed calls (default: 500) */
+  failure?: MockOutcome;
+}
+
+/**
+ * Script for requests matching a URL or route
+ */
+export interface MockRoute {
+  /** Exact URL, URL prefix ending in `*`, regular expression, or predicate */
+  match: string | RegExp | ((url: string, init: RequestInit) => boolean);
+  /** Only match this method */
+  method?: string;
+  /** Outcomes for the 1st, 2nd, ... matching call; the last one repeats */
+  outcomes?: MockOutcome[];
+  /** Seeded random outcomes, used when `outcomes` is not given */
+  random?: MockRandomScript;
+}
+
+/**
+ * Configuration options for a mock fetch
+ */
+export interface MockFetchOptions {
+  /** Routes, checked in order */
+  routes: MockRoute[];
+  /** Seed for routes with random outcomes (default: 1) */
+  seed?: number;
+  /** Outcome for requests that match no route (default: 404) */
+  fallback?: MockOutcome;
+  /** Time source for delays and call timestamps (default: the system clock) */
+  clock?: Clock;
+}
+
+/**
+ * A recorded call to the mock fetch
+ */
+export interface MockCall {
+  url: string;
+  method: string;
+  headers: Headers;
+  body: RequestInit['body'];
+  /** Call number for the matched route (1-based), 0 when no route matched */
+  routeCall: number;
+  /** The outcome that was produced */
+  outcome: MockOutcome;
+  timestamp: number;
+}
+
+/**
+ * Mock `fetch` function with its recorded calls
+ */
+export interface MockFetch {
+  (input: RequestInfo | URL, init?: RequestInit): Promise<Response>;
+  /** Every call made so far, in order */
+  readonly calls: MockCall[];
+  /** Calls whose URL equals or matches the given pattern */
+  callsTo(match: string | RegExp): MockCall[];
+  /** Clears recorded calls, route counters and the random sequence */
+  reset(): void;
+}
+
+/**
+ * Deterministic PRNG (mulberry32)
+ * @param seed - Any 32-bit integer
+ * @returns Function returning numbers in [0, 1)
+ */
+const seededRandom = (seed: number): (() => number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+/**
+ * Checks whether a route applies to a request
+ */
+const matches = (route: MockRoute, url: string, init: RequestInit): boolean => {
+  if (route.method && route.method.toUpperCase() !== (init.method ?? 'GET').toUpperCase()) {
+    return false;
+  }
+
+  const { match } = route;
+  if (typeof match === 'function') {
+    return match(url, init);
+  }
+  if (match instanceof RegExp) {
+    return match.test(url);
+  }
+  return match.endsWith('*') ? url.startsWith(match.slice(0, -1)) : url === match;
+};
+
+/**
+ * Error a real fetch rejects with when its signal aborts
+ */
+const abortError = (signal: AbortSignal): unknown =>
+  signal.reason ?? new DOMException('This operation was aborted', 'AbortError');
+
+/**
+ * Waits, rejecting early if the signal aborts. With no duration, waits until aborted.
+ */
+const wait = (clock: Clock, ms: number | undefined, signal: AbortSignal | null | undefined): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError(signal));
+      return;
+    }
+
+    const onAbort = () => {
+      clock.clearTimeout(timer);
+      reject(abortError(signal!));
+    };
+
+    const timer = ms !== undefined
+      ? clock.setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms)
+      : undefined;
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+/**
+ * Builds a Response for a scripted response outcome
+ */
+const toResponse = (outcome: MockResponseOutcome): Response => {
+  const status = outcome.status ?? 200;
+  const headers = new Headers(outcome.headers);
+  const noBody = outcome.body === undefined || [204, 205, 304].includes(status);
+
+  let body: BodyInit | null = null;
+  if (!noBody) {
+    if (typeof outcome.body === 'string' || outcome.body instanceof ArrayBuffer || outcome.body instanceof Blob) {
+      body = outcome.body;
+    } else {
+      body = JSON.stringify(outcome.body);
+      if (!headers.has('content-type')) {
+        headers.set('content-type', 'application/json');
+      }
+    }
+  }
+
+  return new Response(body, { status, statusText: outcome.statusText ?? '', headers });
+};
+
+/**
+ * Creates a scripted, deterministic replacement for `fetch`. All state lives
+ * in the returned instance, so tests can run in parallel. Pass it to
+ * fetchWithRetry through the `fetch` option.
+ * @param options - Routes and their outcomes
+ * @returns Mock fetch with recorded calls
+ *
+ * @example
+ * const mockFetch = createMockFetch({
+ *   routes: [{ match: 'https://api.test/data', outcomes: [{ status: 503 }, { networkError: 'ECONNRESET' }, { body: { ok: true } }] }]
+ * });
+ * await fetchWithRetry('https://api.test/data', {}, { fetch: mockFetch });
+ * mockFetch.calls.length; // 3
+ */
+export function createMockFetch(options: MockFetchOptions): MockFetch {
+  const clock = options.clock ?? systemClock;
+  const calls: MockCall[] = [];
+  let routeCalls = new Map<MockRoute, number>();
+  let random = seededRandom(options.seed ?? 1);
+
+  const pickOutcome = (route: MockRoute | undefined): { outcome: MockOutcome; routeCall: number } => {
+    if (!route) {
+      return { outcome: options.fallback ?? { status: 404, statusText: 'Not Found' }, routeCall: 0 };
+    }
+
+    const routeCall = (routeCalls.get(route) ?? 0) + 1;
+    routeCalls.set(route, routeCall);
+
+    if (route.outcomes && route.outcomes.length > 0) {
+      return { outcome: route.outcomes[Math.min(routeCall, route.outcomes.length) - 1]!, routeCall };
+    }
+
+    const script = route.random ?? { failureRate: 0 };
+    const failed = random() < script.failureRate;
+    const outcome = failed
+      ? script.failure ?? { status: 500, statusText: 'Internal Server Error' }
+      : script.success ?? { body: { ok: true } };
+    return { outcome, routeCall };
+  };
+
+  const mockFetch = async (input: RequestInfo | URL, init: RequestInit = {}): Promise<Response> => {
+    const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+    const route = options.routes.find(candidate => matches(candidate, url, init));
+    const { outcome, routeCall } = pickOutcome(route);
+
+    calls.push({
+      url,
+      method: (init.method ?? 'GET').toUpperCase(),
+      headers: new Headers(init.headers),
+      body: init.body,
+      routeCall,
+      outcome,
+      timestamp: clock.now()
+    });
+
+    if ('hang' in outcome) {
+      await wait(clock, undefined, init.signal);
+      throw new Error('unreachable');
+    }
+
+    await wait(clock, outcome.delay ?? 0, init.signal);
+
+    if ('networkError' in outcome) {
+      // Error codes such as 'ECONNRESET' are also set as `code`, as Node does
+      const cause = typeof outcome.networkError === 'string'
+        ? Object.assign(new Error(outcome.networkError), /^[A-Z][A-Z0-9_]+$/.test(outcome.networkError) ? { code: outcome.networkError } : {})
+        : outcome.networkError;
+      throw Object.assign(new TypeError('fetch failed'), { cause });
+    }
+
+    return toResponse(outcome);
+  };
+
+  return Object.assign(mockFetch, {
+    calls,
+    callsTo: (match: string | RegExp) =>
+      calls.filter(call => (match instanceof RegExp ? match.test(call.url) : call.url === match)),
+    reset: () => {
+      calls.length = 0;
+      routeCalls = new Map();
+      random = seededRandom(options.seed ?? 1);
+    }
+  });
+}
@@ -0,0 +1,95 @@
+import { NetworkError, DnsError, ConnectionError, TlsError, TimeoutError } from './errors';
+
+/**
+ * Error codes for failed name lookups
+ */
+const DNS_CODES = ['ENOTFOUND', 'EAI_AGAIN', 'EAI_FAIL', 'EAI_NODATA', 'EAI_NONAME'];
+
+/**
+ * Error codes for refused, reset or dropped connections
+ */
+const CONNECTION_CODES = [
+  'ECONNREFUSED',
+  'ECONNRESET',
+  'ECONNABORTED',
+  'EPIPE',
+  'EHOSTUNREACH',
+  'ENETUNREACH',
+  'ENETDOWN',
+  'UND_ERR_SOCKET',
+  'UND_ERR_CLOSED'
+];
+
+/**
+ * Error codes for connect and socket timeouts inside `fetch`
+ */
+const TIMEOUT_CODES = ['ETIMEDOUT', 'UND_ERR_CONNECT_TIMEOUT', 'UND_ERR_HEADERS_TIMEOUT', 'UND_ERR_BODY_TIMEOUT'];
+
+/**
+ * Messages of the TypeErrors `fetch` and body readers reject with
+ */
+const FETCH_FAILURE_MESSAGES = ['fetch failed', 'terminated'];
+
+/**
+ * Whether an error code comes from TLS or certificate verification
+ */
+const isTlsCode = (code: string): boolean =>
+  code.startsWith('ERR_TLS_')
+  || code.startsWith('ERR_SSL_')
+  || code.startsWith('CERT_')
+  || ['DEPTH_ZERO_SELF_SIGNED_CERT', 'SELF_SIGNED_CERT_IN_CHAIN', 'UNABLE_TO_VERIFY_LEAF_SIGNATURE', 'UNABLE_TO_GET_ISSUER_CERT_LOCALLY'].includes(code);
+
+/**
+ * Finds the system error code behind a `fetch` failure. Node's fetch rejects
+ * with `TypeError('fetch failed')` and puts the real error in `cause`, which
+ * may itself be an AggregateError when every address of a host failed.
+ * @param error - What `fetch` or a body reader threw
+ * @returns The error code, if any
+ */
+const findErrorCode = (error: unknown): string | undefined => {
+  for (let current = error, depth = 0; current && depth < 5; depth++) {
+    const candidate = current as { code?: unknown; cause?: unknown; errors?: unknown[] };
+    if (typeof candidate.code === 'string') {
+      return candidate.code;
+    }
+    current = candidate.cause ?? candidate.errors?.[0];
+  }
+  return undefined;
+};
+
+/**
+ * Converts a failure thrown by `fetch` (or while reading the body) into the
+ * matching NetworkError subtype. Other errors are returned unchanged.
+ * @param error - The error thrown during the attempt
+ * @param url - The URL being fetched
+ * @returns A NetworkError subtype, or the original error
+ */
+export const classifyFetchError = (error: Error, url: string): Error => {
+  if (error instanceof NetworkError) {
+    return error;
+  }
+
+  const code = findErrorCode(error);
+
+  if (code !== undefined) {
+    if (DNS_CODES.includes(code)) {
+      return new DnsError(url, error, code);
+    }
+    if (CONNECTION_CODES.includes(code)) {
+      return new ConnectionError(url, error, code);
+    }
+    if (TIMEOUT_CODES.includes(code)) {
+      return new TimeoutError(url, undefined, 'socket', error, code);
+    }
+    if (isTlsCode(code)) {
+      return new TlsError(url, error, code);
+    }
+  }
+
+  // Undici reports every transport failure as a TypeError; other errors came from user code
+  if (error instanceof TypeError && (code !== undefined || FETCH_FAILURE_MESSAGES.includes(error.message))) {
+    return new NetworkError(`Network error fetching ${url}: ${error.message}`, error, code);
+  }
+
+  return error;
+};
@@ -0,0 +1,267 @@
+import { fetchWithRetry } from './fetchWithRetry';
+import { PaginationError } from './errors';
+import type { FetchWithRetryResult, RetryConfig } from './types';
+
+/**
+ * A fetched page, as seen by a pagination strategy
+ */
+export interface PageContext<T = any> {
+  /** Parsed response body */
+  data: T;
+  /** Response headers; absent when the page came from the cache */
+  headers: Headers | undefined;
+  /** URL the page was fetched from */
+  url: string;
+}
+
+/**
+ * Finds the items on a page and the URL of the next page. The next-page URL
+ * is the pagination cursor: resuming means fetching it.
+ */
+export interface PaginationStrategy<T = any, I = unknown> {
+  /** Items on the page */
+  items(page: PageContext<T>): I[];
+  /** URL of the next page, or undefined on the last page */
+  next(page: PageContext<T>, items: I[]): string | undefined;
+}
+
+/**
+ * A page yielded when `mode` is 'pages'
+ */
+export interface Page<T = any, I = unknown> {
+  data: T;
+  /** Items on the page, cut short if `maxItems` was reached */
+  items: I[];
+  url: string;
+  /** 0-based page number within this run */
+  index: number;
+  /** URL of the next page; resume from here if the run is interrupted */
+  next: string | undefined;
+  /** Retry metadata for the page */
+  result: FetchWithRetryResult<T>;
+}
+
+/**
+ * Function with the signature of fetchWithRetry, e.g. a createFetcher instance
+ */
+export type PageFetcher<T> = (url: string, options?: RequestInit, retryConfig?: Partial<RetryConfig<T>>) => Promise<FetchWithRetryResult<T>>;
+
+/**
+ * Configuration options for paginateWithRetry
+ */
+export interface PaginateOptions<T = any, I = unknown> {
+  /** How to find items and the next page */
+  strategy: PaginationStrategy<T, I>;
+  /** Yield each item, or each page with its items (default: 'items') */
+  mode?: 'items' | 'pages';
+  /** Stop after this many pages */
+  maxPages?: number;
+  /** Stop after this many items */
+  maxItems?: number;
+  /** Fetch options for every page (method, headers, signal) */
+  options?: RequestInit;
+  /** Retry configuration for every page; each page is retried on its own */
+  retryConfig?: Partial<RetryConfig<T>>;
+  /** Fetches each page (default: fetchWithRetry) */
+  fetcher?: PageFetcher<T>;
+}
+
+/**
+ * Options shared by the built-in strategies
+ */
+export interface ItemsPathOptions {
+  /** Dot path to the items array, e.g. 'data.items' (default: the body itself) */
+  itemsPath?: string;
+}
+
+/**
+ * Reads a dot-separated path such as 'meta.next' or 'results.0.id'
+ * @param value - Object to read from
+ * @param path - Dot path; empty for the value itself
+ * @returns The value at the path, or undefined
+ */
+const getPath = (value: unknown, path: string | undefined): unknown =>
+  (path ? path.split('.') : []).reduce<unknown>(
+    (current, key) => (current !== null && typeof current === 'object' ? (current as Record<string, unknown>)[key] : undefined),
+    value
+  );
+
+/**
+ * Reads the items array of a page
+ * @throws {TypeError} When the path does not lead to an array
+ */
+const itemsAt = <I>(page: PageContext, path: string | undefined): I[] => {
+  const items = getPath(page.data, path);
+  if (!Array.isArray(items)) {
+    throw new TypeError(`Expected an array of items at '${path ?? '(body)'}' in the response from ${page.url}`);
+  }
+  return items as I[];
+};
+
+/**
+ * Returns the URL with one query parameter replaced
+ */
+const withParam = (url: string, name: string, value: string | number): string => {
+  const next = new URL(url);
+  next.searchParams.set(name, String(value));
+  return next.href;
+};
+
+/**
+ * Finds the `rel="next"` target in a Link header
+ * @param header - Link header value, if any
+ * @param base - URL relative targets are resolved against
+ * @returns Absolute URL of the next page, if any
+ */
+const parseNextLink = (header: string | null | undefined, base: string): string | undefined => {
+  for (const match of (header ?? '').matchAll(/<([^>]*)>([^,<]*)/g)) {
+    const rel = /;\s*rel\s*=\s*"?([^";]+)"?/i.exec(match[2] ?? '')?.[1];
+    if (rel?.toLowerCase().split(/\s+/).includes('next')) {
+      return new URL(match[1] ?? '', base).href;
+    }
+  }
+  return undefined;
+};
+
+/**
+ * Follows `Link: <...>; rel="next"` response headers, as used by GitHub and RFC 8288 APIs
+ * @param options - Where the items are in the body
+ * @returns Pagination strategy
+ */
+export function linkHeaderPagination<I = unknown>(options: ItemsPathOptions = {}): PaginationStrategy<any, I> {
+  return {
+    items: page => itemsAt<I>(page, options.itemsPath),
+    next: page => parseNextLink(page.headers?.get('link'), page.url)
+  };
+}
+
+/**
+ * Configuration for cursor-token pagination
+ */
+export interface CursorPaginationOptions extends ItemsPathOptions {
+  /** Dot path to the next cursor in the body, e.g. 'meta.next_cursor' */
+  cursorPath: string;
+  /** Query parameter the cursor is sent in (default: 'cursor') */
+  param?: string;
+}
+
+/**
+ * Sends the cursor token from each body as a query parameter; stops when
+ * the token is missing, null or empty
+ * @param options - Where the cursor and items are
+ * @returns Pagination strategy
+ */
+export function cursorPagination<I = unknown>(options: CursorPaginationOptions): PaginationStrategy<any, I> {
+  return {
+    items: page => itemsAt<I>(page, options.itemsPath),
+    next: page => {
+      const cursor = getPath(page.data, options.cursorPath);
+      return cursor === undefined || cursor === null || cursor === ''
+        ? undefined
+        : withParam(page.url, options.param ?? 'cursor', String(cursor));
+    }
+  };
+}
+
+/**
+ * Configuration for offset/limit pagination
+ */
+export interface OffsetPaginationOptions extends ItemsPathOptions {
+  /** Page size, sent as the limit parameter */
+  limit: number;
+  /** Query parameter for the offset (default: 'offset') */
+  offsetParam?: string;
+  /** Query parameter for the page size (default: 'limit') */
+  limitParam?: string;
+  /** Dot path to the total item count, if the API reports one */
+  totalPath?: string;
+}
+
+/**
+ * Advances an offset query parameter by the number of items received; stops
+ * on a short page or once the reported total is reached. The first URL
+ * does not need the parameters; they are added from the second page on, and
+ * a resumed run picks the offset up from the cursor URL.
+ * @param options - Page size, parameter names and where the items are
+ * @returns Pagination strategy
+ */
+export function offsetPagination<I = unknown>(options: OffsetPaginationOptions): PaginationStrategy<any, I> {
+  const offsetParam = options.offsetParam ?? 'offset';
+  const limitParam = options.limitParam ?? 'limit';
+
+  return {
+    items: page => itemsAt<I>(page, options.itemsPath),
+    next: (page, items) => {
+      const offset = Number(new URL(page.url).searchParams.get(offsetParam) ?? 0) + items.length;
+      const total = options.totalPath !== undefined ? Number(getPath(page.data, options.totalPath)) : NaN;
+
+      if (items.length < options.limit || items.length === 0 || offset >= total) {
+        return undefined;
+      }
+      return withParam(withParam(page.url, offsetParam, offset), limitParam, options.limit);
+    }
+  };
+}
+
+/**
+ * Pages through a list endpoint, fetching each page with fetchWithRetry so
+ * that every page is retried on its own. Pages are fetched as the consumer
+ * iterates, so breaking out of the loop stops fetching.
+ * @param url - First page, or the `cursor` of a PaginationError to resume
+ * @param paginateOptions - Strategy, limits and retry configuration
+ * @returns Async generator of items, or of pages when `mode` is 'pages'
+ * @throws {PaginationError} When a page fails; its `cursor` is where to resume
+ *
+ * @example
+ * for await (const repo of paginateWithRetry<Repo>('https://api.github.com/orgs/nodejs/repos', {
+ *   strategy: linkHeaderPagination(),
+ *   maxItems: 500
+ * })) {
+ *   console.log(repo.name);
+ * }
+ */
+export function paginateWithRetry<I = unknown, T = any>(
+  url: string,
+  paginateOptions: PaginateOptions<T, I> & { mode: 'pages' }
+): AsyncGenerator<Page<T, I>, void, undefined>;
+export function paginateWithRetry<I = unknown, T = any>(
+  url: string,
+  paginateOptions: PaginateOptions<T, I> & { mode?: 'items' }
+): AsyncGenerator<I, void, undefined>;
+export async function* paginateWithRetry<I = unknown, T = any>(
+  url: string,
+  paginateOptions: PaginateOptions<T, I>
+): AsyncGenerator<I | Page<T, I>, void, undefined> {
+  const { strategy, mode = 'items', maxPages = Infinity, maxItems = Infinity } = paginateOptions;
+  const fetcher: PageFetcher<T> = paginateOptions.fetcher ?? fetchWithRetry;
+  let cursor: string | undefined = url;
+  let pages = 0;
+  let itemCount = 0;
+
+  while (cursor !== undefined && pages < maxPages && itemCount < maxItems) {
+    const pageUrl: string = cursor;
+    let result: FetchWithRetryResult<T>;
+    let items: I[];
+    let next: string | undefined;
+
+    try {
+      result = await fetcher(pageUrl, paginateOptions.options, paginateOptions.retryConfig);
+      const page: PageContext<T> = { data: result.data, headers: result.headers, url: pageUrl };
+      items = strategy.items(page);
+      next = strategy.next(page, items);
+    } catch (error) {
+      throw new PaginationError(pageUrl, pages, itemCount, error);
+    }
+
+    items = items.slice(0, maxItems - itemCount);
+    pages++;
+    itemCount += items.length;
+    cursor = next;
+
+    if (mode === 'pages') {
+      yield { data: result.data, items, url: pageUrl, index: pages - 1, next, result };
+    } else {
+      yield* items;
+    }
+  }
+}
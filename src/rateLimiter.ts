@@ -0,0 +1,182 @@
+import { Clock, systemClock } from './clock';
+import { AbortError } from './errors';
+import { getRateLimitQuota } from './retryAfter';
+
+/**
+ * Configuration for one token bucket
+ */
+export interface TokenBucketOptions {
+  /** Requests allowed per interval; also the burst capacity */
+  limit: number;
+  /** Interval in milliseconds, e.g. 1000 for "per second" */
+  interval: number;
+  /**
+   * What the bucket is shared by (default: 'global')
+   * - `global`: every request
+   * - `host`: requests to the same host
+   * - `key`: requests mapped to the same key by `key`
+   */
+  scope?: 'global' | 'host' | 'key';
+  /** Maps a request to its bucket when scope is 'key' */
+  key?: (url: string, options: RequestInit) => string;
+}
+
+/**
+ * Mutable state of one bucket instance
+ */
+interface Bucket {
+  /** May go negative: that many requests are already waiting for tokens */
+  tokens: number;
+  updatedAt: number;
+  /** Server-reported quota exhaustion: no refill before this time */
+  pausedUntil: number;
+}
+
+/**
+ * Returns the host of a URL, or the URL itself when it cannot be parsed
+ */
+const hostOf = (url: string): string => {
+  try {
+    return new URL(url).host;
+  } catch {
+    return url;
+  }
+};
+
+/**
+ * Client-side rate limiter made of one or more token buckets. A request
+ * waits until every bucket that applies to it has a token. Waiters are
+ * served in arrival order by letting buckets go into debt.
+ */
+export class RateLimiter {
+  public readonly buckets: TokenBucketOptions[];
+  private readonly state = new Map<string, Bucket>();
+
+  /**
+   * @param buckets - Buckets that apply to each request
+   * @param clock - Time source for refills and waits (default: the system clock)
+   */
+  constructor(buckets: TokenBucketOptions | TokenBucketOptions[], private readonly clock: Clock = systemClock) {
+    this.buckets = Array.isArray(buckets) ? buckets : [buckets];
+  }
+
+  /**
+   * Waits for a token from every applicable bucket
+   * @param url - The URL about to be fetched
+   * @param options - Fetch options, passed to key functions
+   * @param signal - Cancels the wait and returns the reserved tokens
+   * @throws {AbortError} When the signal aborts while waiting
+   */
+  async acquire(url: string, options: RequestInit = {}, signal?: AbortSignal | null): Promise<void> {
+    if (signal?.aborted) {
+      throw new AbortError(`Request to ${url} was aborted`, signal.reason);
+    }
+
+    const now = this.clock.now();
+    let wait = 0;
+    const reserved: Bucket[] = [];
+
+    this.buckets.forEach((bucketOptions, index) => {
+      const bucket = this.refill(this.bucketFor(index, url, options), bucketOptions, now);
+      bucket.tokens -= 1;
+      reserved.push(bucket);
+
+      const refillStart = Math.max(now, bucket.pausedUntil);
+      const debt = bucket.tokens < 0 ? -bucket.tokens : 0;
+      wait = Math.max(wait, refillStart - now + (debt * bucketOptions.interval) / bucketOptions.limit);
+    });
+
+    if (wait <= 0) {
+      return;
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      const onAbort = () => {
+        this.clock.clearTimeout(timer);
+        reserved.forEach(bucket => {
+          bucket.tokens += 1;
+        });
+        reject(new AbortError(`Request to ${url} was aborted`, signal?.reason));
+      };
+
+      const timer = this.clock.setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, Math.ceil(wait));
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  /**
+   * Lowers the applicable buckets to the quota the server reports through
+   * `RateLimit-Remaining`/`RateLimit-Reset` (or the `X-` variants).
+   * Never raises a bucket above its configured limit.
+   * @param url - The URL that was fetched
+   * @param options - Fetch options, passed to key functions
+   * @param headers - Response headers
+   */
+  update(url: string, options: RequestInit, headers: Headers | undefined): void {
+    const now = this.clock.now();
+    const quota = headers ? getRateLimitQuota(headers, now) : undefined;
+    if (!quota) {
+      return;
+    }
+
+    this.buckets.forEach((bucketOptions, index) => {
+      const bucket = this.refill(this.bucketFor(index, url, options), bucketOptions, now);
+
+      if (quota.remaining < bucket.tokens) {
+        bucket.tokens = quota.remaining;
+      }
+
+      if (quota.remaining === 0 && quota.resetIn !== undefined) {
+        bucket.pausedUntil = Math.max(bucket.pausedUntil, now + quota.resetIn);
+      }
+    });
+  }
+
+  /**
+   * Returns tokens currently available in the bucket a request would use
+   * @param index - Position of the bucket in the configuration
+   * @param url - Request URL
+   * @param options - Fetch options
+   */
+  available(index: number, url: string, options: RequestInit = {}): number {
+    const bucketOptions = this.buckets[index];
+    if (!bucketOptions) {
+      return 0;
+    }
+    return Math.max(0, this.refill(this.bucketFor(index, url, options), bucketOptions, this.clock.now()).tokens);
+  }
+
+  private bucketFor(index: number, url: string, options: RequestInit): Bucket {
+    const bucketOptions = this.buckets[index]!;
+    const scope = bucketOptions.scope ?? 'global';
+    const scopeKey = scope === 'host'
+      ? hostOf(url)
+      : scope === 'key' && bucketOptions.key
+        ? bucketOptions.key(url, options)
+        : '';
+    const stateKey = `${index}:${scopeKey}`;
+
+    let bucket = this.state.get(stateKey);
+    if (!bucket) {
+      bucket = { tokens: bucketOptions.limit, updatedAt: this.clock.now(), pausedUntil: 0 };
+      this.state.set(stateKey, bucket);
+    }
+    return bucket;
+  }
+
+  /**
+   * Adds the tokens earned since the bucket was last updated
+   */
+  private refill(bucket: Bucket, options: TokenBucketOptions, now: number): Bucket {
+    const from = Math.max(bucket.updatedAt, bucket.pausedUntil);
+    if (now > from) {
+      bucket.tokens = Math.min(options.limit, bucket.tokens + ((now - from) * options.limit) / options.interval);
+    }
+    bucket.updatedAt = Math.max(bucket.updatedAt, now);
+    return bucket;
+  }
+}
@@ -0,0 +1,108 @@
+import { RetryConfig } from './types';
+import { writeLog } from './logger';
+
+/**
+ * Fetch options with the body made ready for every attempt of one call
+ */
+export interface PreparedBody {
+  options: RequestInit;
+  /** Whether the body can be sent again on a retry */
+  replayable: boolean;
+}
+
+/**
+ * Determines whether a body is consumed by sending it. Strings, buffers,
+ * URLSearchParams, Blob and FormData are re-serialised by `fetch` for every
+ * request; streams and async iterables are read once.
+ * @param body - The request body
+ * @returns boolean indicating whether the body is single-use
+ */
+export const isStreamBody = (body: unknown): body is AsyncIterable<Uint8Array | string> | ReadableStream<Uint8Array> =>
+  typeof body === 'object' && body !== null
+    && (body instanceof ReadableStream || Symbol.asyncIterator in body);
+
+/**
+ * Converts a chunk from a stream or iterable to bytes
+ */
+const toBytes = (chunk: Uint8Array | string): Uint8Array =>
+  typeof chunk === 'string' ? new TextEncoder().encode(chunk) : chunk;
+
+/**
+ * Concatenates chunks into one buffer
+ */
+const concat = (chunks: Uint8Array[], size: number): ArrayBuffer => {
+  const bytes = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return bytes.buffer;
+};
+
+/**
+ * Makes a stream body safe to retry, following `streamBody`. A stream within
+ * `maxBufferedBody` is read into memory and sent as bytes on every attempt;
+ * a larger one is sent once, with the bytes already read put back in front
+ * of the rest of the stream. With a `bodyFactory`, the body is built per
+ * attempt instead and `options.body` is left alone.
+ * @param url - The URL being fetched
+ * @param options - Fetch options
+ * @param config - Retry configuration
+ * @returns Fetch options to use for every attempt, and whether retries may resend the body
+ */
+export const prepareRequestBody = async (url: string, options: RequestInit, config: RetryConfig): Promise<PreparedBody> => {
+  const { body } = options;
+
+  if (config.bodyFactory || !isStreamBody(body)) {
+    return { options, replayable: true };
+  }
+
+  // Without retries or an auth replay, the body is only ever sent once
+  if (config.streamBody === 'refuse' || (config.maxRetries === 0 && !config.auth)) {
+    return { options, replayable: false };
+  }
+
+  const iterator = (body as unknown as AsyncIterable<Uint8Array | string>)[Symbol.asyncIterator]();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+
+  for (;;) {
+    const { done, value } = await iterator.next();
+    if (done) {
+      return { options: { ...options, body: concat(chunks, size) }, replayable: true };
+    }
+
+    const chunk = toBytes(value);
+    chunks.push(chunk);
+    size += chunk.length;
+
+    if (size > config.maxBufferedBody) {
+      break;
+    }
+  }
+
+  writeLog(config.logger, 'warn', `⚠️ Request body for ${url} is larger than ${config.maxBufferedBody} bytes; sending it once without retries`, { url });
+
+  const rest = new ReadableStream<Uint8Array>({
+    pull: async controller => {
+      const buffered = chunks.shift();
+      if (buffered) {
+        controller.enqueue(buffered);
+        return;
+      }
+
+      const { done, value } = await iterator.next();
+      if (done) {
+        controller.close();
+      } else {
+        controller.enqueue(toBytes(value));
+      }
+    },
+    cancel: async reason => {
+      await iterator.return?.(reason);
+    }
+  });
+
+  return { options: { ...options, body: rest }, replayable: false };
+};
@@ -0,0 +1,62 @@
+import type { RetryConfig } from './types';
+
+/**
+ * 32-bit FNV-1a hash, hex encoded
+ * @param value - Any string
+ * @returns Eight hex digits
+ */
+export const hashString = (value: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+/**
+ * Ids for objects and functions that cannot be serialised into a key
+ */
+const identities = new WeakMap<object, number>();
+let nextIdentity = 1;
+
+/**
+ * Returns a stable id for an object or function, '-' for undefined
+ */
+const identityOf = (value: object | undefined): string => {
+  if (value === undefined) {
+    return '-';
+  }
+  let id = identities.get(value);
+  if (id === undefined) {
+    id = nextIdentity++;
+    identities.set(value, id);
+  }
+  return String(id);
+};
+
+/**
+ * Hashes request headers, however they were passed
+ * @param headers - Request headers, if any
+ * @returns Hash of the normalised headers
+ */
+export const hashHeaders = (headers: HeadersInit | undefined): string => {
+  const lines: string[] = [];
+  new Headers(headers).forEach((value, name) => lines.push(`${name}:${value}`));
+  return hashString(lines.join('\n'));
+};
+
+/**
+ * Key fragment for the parts of the configuration that shape a call's
+ * result (responseType, validate, fetch, auth, middleware), so calls that
+ * would get different data never share a key
+ * @param config - Retry configuration of the call
+ * @returns Key fragment
+ */
+export const resultShapeKey = (config: Partial<RetryConfig>): string => [
+  config.responseType ?? '-',
+  identityOf(config.validate),
+  identityOf(config.fetch),
+  identityOf(config.auth),
+  identityOf(config.middleware)
+].join(',');
@@ -0,0 +1,145 @@
+import { ResponseParseError, ValidationError } from './errors';
+
+/**
+ * How the response body is turned into `data`
+ * - `json`, `text`, `arrayBuffer`, `blob`: the matching `Response` body reader
+ * - `stream`: the raw `ReadableStream` body
+ * - `response`: the `Response` itself, body unread
+ * - `auto`: chosen from the `Content-Type` header
+ */
+export type ResponseType = 'json' | 'text' | 'arrayBuffer' | 'blob' | 'stream' | 'response' | 'auto';
+
+/**
+ * Runtime validator for the parsed body. Either a function that returns the
+ * narrowed value or throws, or any object with a zod-style `parse` method.
+ */
+export type ResponseValidator<T> = ((data: unknown) => T) | { parse: (data: unknown) => T };
+
+/**
+ * Statuses that never carry a body
+ */
+const EMPTY_BODY_STATUSES = [204, 205, 304];
+
+/**
+ * Picks a concrete body reader from the Content-Type header
+ * @param contentType - Content-Type header value, if any
+ * @returns Response type to use
+ */
+const detectResponseType = (contentType: string | null | undefined): Exclude<ResponseType, 'auto'> => {
+  const mediaType = contentType?.split(';')[0]?.trim().toLowerCase() ?? '';
+
+  if (mediaType === 'application/json' || mediaType.endsWith('+json')) {
+    return 'json';
+  }
+
+  if (
+    mediaType === ''
+    || mediaType.startsWith('text/')
+    || mediaType.endsWith('+xml')
+    || ['application/xml', 'application/javascript', 'application/x-www-form-urlencoded'].includes(mediaType)
+  ) {
+    return 'text';
+  }
+
+  return 'arrayBuffer';
+};
+
+/**
+ * Reads the response body according to the requested type
+ * @param response - Successful response
+ * @param responseType - How to read the body
+ * @param url - The URL that was fetched, for error messages
+ * @param method - Request method; HEAD responses have no body
+ * @returns The parsed body, or undefined when there is none
+ * @throws {ResponseParseError} When the body cannot be parsed as requested
+ */
+export const parseResponse = async (
+  response: Response,
+  responseType: ResponseType,
+  url: string,
+  method: string
+): Promise<unknown> => {
+  const type = responseType === 'auto'
+    ? detectResponseType(response.headers?.get('content-type'))
+    : responseType;
+
+  if (type === 'response') {
+    return response;
+  }
+
+  if (EMPTY_BODY_STATUSES.includes(response.status) || method.toUpperCase() === 'HEAD') {
+    return undefined;
+  }
+
+  try {
+    switch (type) {
+      case 'json':
+        return await response.json();
+      case 'text':
+        return await response.text();
+      case 'arrayBuffer':
+        return await response.arrayBuffer();
+      case 'blob':
+        return await response.blob();
+      case 'stream':
+        return response.body;
+    }
+  } catch (error) {
+    // Body readers reject with TypeError when the connection fails mid-body;
+    // leave those to be handled as network failures
+    if (error instanceof SyntaxError) {
+      throw new ResponseParseError(url, type, error);
+    }
+    throw error;
+  }
+};
+
+/**
+ * Runs the configured validator over the parsed body
+ * @param data - Parsed body
+ * @param validator - Function or zod-style schema
+ * @param url - The URL that was fetched, for error messages
+ * @returns The validated (and possibly transformed) value
+ * @throws {ValidationError} When the validator rejects the data
+ */
+export const validateResponse = <T>(data: unknown, validator: ResponseValidator<T>, url: string): T => {
+  try {
+    return typeof validator === 'function' ? validator(data) : validator.parse(data);
+  } catch (error) {
+    throw new ValidationError(url, error);
+  }
+};
+
+/**
+ * Reads the start of a body as text, for error reports. Stops after `limit`
+ * bytes and cancels the rest, so a large error page is never buffered whole.
+ * @param response - The response whose body to sample
+ * @param limit - Maximum bytes to read; 0 skips the body
+ * @returns The decoded text, or undefined when there is no body or it cannot be read
+ */
+export const readBodySnapshot = async (response: Response, limit: number): Promise<string | undefined> => {
+  const reader = limit > 0 ? response.body?.getReader() : undefined;
+  if (!reader) {
+    return undefined;
+  }
+
+  const decoder = new TextDecoder();
+  let text = '';
+  let received = 0;
+
+  try {
+    while (received < limit) {
+      const { done, value } = await reader.read();
+      if (done) {
+        return text + decoder.decode();
+      }
+      const chunk = value.subarray(0, limit - received);
+      received += chunk.length;
+      text += decoder.decode(chunk, { stream: true });
+    }
+    await reader.cancel();
+    return text + decoder.decode();
+  } catch {
+    return text || undefined;
+  }
+};
@@ -0,0 +1,131 @@
+/**
+ * Response headers a server may use to tell us when to try again.
+ * `RateLimit-Reset` is the IETF draft header; `X-RateLimit-Reset` is the
+ * de facto variant used by GitHub, Twitter and many others.
+ */
+const RESET_HEADERS = ['ratelimit-reset', 'x-ratelimit-reset'];
+const REMAINING_HEADERS = ['ratelimit-remaining', 'x-ratelimit-remaining'];
+
+/**
+ * Values above this are treated as Unix epoch seconds rather than a delta
+ * (roughly September 2001, far beyond any sane reset window)
+ */
+const EPOCH_SECONDS_THRESHOLD = 1_000_000_000;
+
+/**
+ * Parses a `Retry-After` header value
+ * @param value - Header value in delta-seconds or HTTP-date form
+ * @param now - Current time in milliseconds since the epoch
+ * @returns Delay in milliseconds, or undefined when the value is unusable
+ */
+export const parseRetryAfter = (value: string | null, now: number = Date.now()): number | undefined => {
+  if (value === null || value.trim() === '') {
+    return undefined;
+  }
+
+  const trimmed = value.trim();
+
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    return Math.round(parseFloat(trimmed) * 1000);
+  }
+
+  const date = Date.parse(trimmed);
+  if (Number.isNaN(date)) {
+    return undefined;
+  }
+
+  return Math.max(0, date - now);
+};
+
+/**
+ * Parses a `RateLimit-Reset` / `X-RateLimit-Reset` header value.
+ * Small numbers are delta-seconds, large ones are epoch seconds.
+ * @param value - Header value
+ * @param now - Current time in milliseconds since the epoch
+ * @returns Delay in milliseconds, or undefined when the value is unusable
+ */
+export const parseRateLimitReset = (value: string | null, now: number = Date.now()): number | undefined => {
+  if (value === null || !/^\d+(\.\d+)?$/.test(value.trim())) {
+    return undefined;
+  }
+
+  const seconds = parseFloat(value.trim());
+
+  if (seconds >= EPOCH_SECONDS_THRESHOLD) {
+    return Math.max(0, Math.round(seconds * 1000 - now));
+  }
+
+  return Math.round(seconds * 1000);
+};
+
+/**
+ * Returns the first present header among the given names
+ */
+const firstHeader = (headers: Headers, names: string[]): string | null => {
+  for (const name of names) {
+    const value = headers.get(name);
+    if (value !== null) {
+      return value;
+    }
+  }
+  return null;
+};
+
+/**
+ * Works out how long the server asked us to wait before the next attempt.
+ * `Retry-After` always wins; the rate-limit reset headers are only consulted
+ * for 429 responses or when the remaining quota is reported as exhausted,
+ * because many APIs send them on every response.
+ * @param status - HTTP status of the failed response
+ * @param headers - Response headers
+ * @param now - Current time in milliseconds since the epoch
+ * @returns Delay in milliseconds, or undefined when the server gave no hint
+ */
+export const getServerRetryDelay = (
+  status: number,
+  headers: Headers,
+  now: number = Date.now()
+): number | undefined => {
+  const retryAfter = parseRetryAfter(headers.get('retry-after'), now);
+  if (retryAfter !== undefined) {
+    return retryAfter;
+  }
+
+  const quotaExhausted = firstHeader(headers, REMAINING_HEADERS)?.trim() === '0';
+  if (status !== 429 && !quotaExhausted) {
+    return undefined;
+  }
+
+  return parseRateLimitReset(firstHeader(headers, RESET_HEADERS), now);
+};
+
+/**
+ * Quota reported by the server through rate-limit response headers
+ */
+export interface RateLimitQuota {
+  /** Requests left in the current window */
+  remaining: number;
+  /** Milliseconds until the window resets, when reported */
+  resetIn?: number;
+}
+
+/**
+ * Reads the remaining quota from `RateLimit-Remaining`/`X-RateLimit-Remaining`
+ * and `RateLimit-Reset`/`X-RateLimit-Reset`
+ * @param headers - Response headers
+ * @param now - Current time in milliseconds since the epoch
+ * @returns The quota, or undefined when the server did not report one
+ */
+export const getRateLimitQuota = (headers: Headers, now: number = Date.now()): RateLimitQuota | undefined => {
+  const remaining = firstHeader(headers, REMAINING_HEADERS);
+  if (remaining === null || !/^\d+$/.test(remaining.trim())) {
+    return undefined;
+  }
+
+  const resetIn = parseRateLimitReset(firstHeader(headers, RESET_HEADERS), now);
+
+  return {
+    remaining: parseInt(remaining.trim(), 10),
+    ...(resetIn !== undefined ? { resetIn } : {})
+  };
+};
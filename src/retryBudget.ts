@@ -0,0 +1,126 @@
+import { Clock, systemClock } from './clock';
+
+/**
+ * Configuration options for the retry budget
+ */
+export interface RetryBudgetOptions {
+  /** Retries allowed as a fraction of first attempts in the window (default: 0.1) */
+  ratio: number;
+  /** Sliding window length in milliseconds (default: 10000) */
+  window: number;
+  /** Retries per second always allowed, so low-traffic callers can still retry (default: 10) */
+  minRetriesPerSecond: number;
+  /** Time source for the sliding window (default: the system clock) */
+  clock: Clock;
+}
+
+/**
+ * Point-in-time view of the budget
+ */
+export interface RetryBudgetStats {
+  /** First attempts in the current window */
+  requests: number;
+  /** Retries in the current window */
+  retries: number;
+  /** Further retries the budget would allow right now */
+  available: number;
+}
+
+/**
+ * Counts for one slice of the sliding window
+ */
+interface Slot {
+  start: number;
+  requests: number;
+  retries: number;
+}
+
+/**
+ * Number of slices the window is divided into
+ */
+const SLOTS = 10;
+
+/**
+ * Default retry budget configuration
+ */
+const DEFAULT_RETRY_BUDGET_OPTIONS: RetryBudgetOptions = {
+  ratio: 0.1,
+  window: 10000,
+  minRetriesPerSecond: 10,
+  clock: systemClock
+};
+
+/**
+ * Caps retries at a ratio of recent first attempts, so that a partial outage
+ * cannot multiply traffic by `maxRetries + 1`. Share one instance between
+ * fetchers to budget them together.
+ */
+export class RetryBudget {
+  public readonly options: RetryBudgetOptions;
+  private slots: Slot[] = [];
+
+  constructor(options: Partial<RetryBudgetOptions> = {}) {
+    this.options = { ...DEFAULT_RETRY_BUDGET_OPTIONS, ...options };
+  }
+
+  /**
+   * Records the first attempt of a logical call
+   */
+  recordRequest(): void {
+    this.currentSlot().requests++;
+  }
+
+  /**
+   * Asks to spend a retry, recording it when allowed
+   * @returns Whether the retry may go ahead
+   */
+  tryRetry(): boolean {
+    if (this.available() < 1) {
+      return false;
+    }
+    this.currentSlot().retries++;
+    return true;
+  }
+
+  /**
+   * Returns the current window's counts
+   */
+  stats(): RetryBudgetStats {
+    const { requests, retries } = this.totals();
+    return { requests, retries, available: Math.max(0, Math.floor(this.available())) };
+  }
+
+  private available(): number {
+    const { requests, retries } = this.totals();
+    const floor = this.options.minRetriesPerSecond * (this.options.window / 1000);
+    return requests * this.options.ratio + floor - retries;
+  }
+
+  private totals(): { requests: number; retries: number } {
+    this.prune(this.options.clock.now());
+    return this.slots.reduce(
+      (sum, slot) => ({ requests: sum.requests + slot.requests, retries: sum.retries + slot.retries }),
+      { requests: 0, retries: 0 }
+    );
+  }
+
+  private currentSlot(): Slot {
+    const now = this.options.clock.now();
+    this.prune(now);
+
+    const slotLength = this.options.window / SLOTS;
+    const start = now - (now % slotLength);
+    let slot = this.slots[this.slots.length - 1];
+
+    if (!slot || slot.start !== start) {
+      slot = { start, requests: 0, retries: 0 };
+      this.slots.push(slot);
+    }
+    return slot;
+  }
+
+  private prune(now: number): void {
+    const cutoff = now - this.options.window;
+    this.slots = this.slots.filter(slot => slot.start + this.options.window / SLOTS > cutoff);
+  }
+}
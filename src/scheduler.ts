@@ -0,0 +1,220 @@
+import { Clock, systemClock } from './clock';
+import { AbortError, QueueTimeoutError } from './errors';
+import { originOf } from './url';
+
+/**
+ * Queue priority of a request
+ */
+export type RequestPriority = 'high' | 'normal' | 'low';
+
+/**
+ * Configuration options for the request scheduler
+ */
+export interface SchedulerOptions {
+  /** Maximum attempts in flight across all origins (default: Infinity) */
+  maxConcurrent: number;
+  /** Maximum attempts in flight per origin (default: Infinity) */
+  maxConcurrentPerOrigin: number;
+  /** Milliseconds a request may wait in the queue before failing with QueueTimeoutError */
+  queueTimeout?: number;
+  /** Maps a URL to the bucket its per-origin limit applies to (default: the URL's origin) */
+  key: (url: string) => string;
+  /** Time source for queue timeouts and wait statistics (default: the system clock) */
+  clock: Clock;
+}
+
+/**
+ * Queue depth and wait-time statistics
+ */
+export interface SchedulerStats {
+  /** Attempts currently in flight */
+  active: number;
+  /** Attempts currently in flight, per origin */
+  activeByOrigin: Record<string, number>;
+  /** Requests currently waiting */
+  queued: number;
+  /** Requests currently waiting, per priority */
+  queuedByPriority: Record<RequestPriority, number>;
+  /** Requests that have been given a slot so far */
+  dispatched: number;
+  /** Requests that gave up waiting because of queueTimeout */
+  timedOut: number;
+  /** Mean time dispatched requests spent queued, in milliseconds */
+  averageWait: number;
+  /** Longest time a dispatched request spent queued, in milliseconds */
+  maxWait: number;
+}
+
+/**
+ * Releases a slot obtained from the scheduler; safe to call more than once
+ */
+export type ReleaseSlot = () => void;
+
+/**
+ * A request waiting for a slot
+ */
+interface QueuedRequest {
+  origin: string;
+  enqueuedAt: number;
+  grant: (release: ReleaseSlot) => void;
+}
+
+const PRIORITIES: RequestPriority[] = ['high', 'normal', 'low'];
+
+/**
+ * Default scheduler configuration
+ */
+const DEFAULT_SCHEDULER_OPTIONS: SchedulerOptions = {
+  maxConcurrent: Infinity,
+  maxConcurrentPerOrigin: Infinity,
+  key: originOf,
+  clock: systemClock
+};
+
+/**
+ * Limits attempts in flight globally and per origin, handing out free slots
+ * to queued requests in priority order (first come, first served within a
+ * priority). Every attempt, including retries, queues for its own slot.
+ */
+export class RequestScheduler {
+  public readonly options: SchedulerOptions;
+  private readonly queues: Record<RequestPriority, QueuedRequest[]> = { high: [], normal: [], low: [] };
+  private readonly activeByOrigin = new Map<string, number>();
+  private active = 0;
+  private dispatched = 0;
+  private timedOut = 0;
+  private totalWait = 0;
+  private maxWait = 0;
+
+  constructor(options: Partial<SchedulerOptions> = {}) {
+    this.options = { ...DEFAULT_SCHEDULER_OPTIONS, ...options };
+  }
+
+  /**
+   * Waits for a slot to send an attempt to the given URL
+   * @param url - The URL about to be fetched
+   * @param priority - Queue priority
+   * @param signal - Cancels the wait
+   * @returns Function that releases the slot
+   * @throws {QueueTimeoutError} When the wait exceeds queueTimeout
+   * @throws {AbortError} When the signal aborts while waiting
+   */
+  acquire(url: string, priority: RequestPriority = 'normal', signal?: AbortSignal | null): Promise<ReleaseSlot> {
+    if (signal?.aborted) {
+      return Promise.reject(new AbortError(`Request to ${url} was aborted`, signal.reason));
+    }
+
+    const origin = this.options.key(url);
+
+    return new Promise((resolve, reject) => {
+      let timer: unknown;
+
+      const request: QueuedRequest = {
+        origin,
+        enqueuedAt: this.options.clock.now(),
+        grant: release => {
+          this.options.clock.clearTimeout(timer);
+          signal?.removeEventListener('abort', onAbort);
+          resolve(release);
+        }
+      };
+
+      const onAbort = () => {
+        this.options.clock.clearTimeout(timer);
+        this.remove(priority, request);
+        reject(new AbortError(`Request to ${url} was aborted`, signal?.reason));
+      };
+
+      if (this.options.queueTimeout !== undefined) {
+        const queueTimeout = this.options.queueTimeout;
+        timer = this.options.clock.setTimeout(() => {
+          signal?.removeEventListener('abort', onAbort);
+          this.remove(priority, request);
+          this.timedOut++;
+          reject(new QueueTimeoutError(url, queueTimeout));
+        }, queueTimeout);
+      }
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.queues[priority].push(request);
+      this.dispatch();
+    });
+  }
+
+  /**
+   * Returns current queue depth and wait-time statistics
+   */
+  stats(): SchedulerStats {
+    return {
+      active: this.active,
+      activeByOrigin: Object.fromEntries(this.activeByOrigin),
+      queued: PRIORITIES.reduce((sum, priority) => sum + this.queues[priority].length, 0),
+      queuedByPriority: {
+        high: this.queues.high.length,
+        normal: this.queues.normal.length,
+        low: this.queues.low.length
+      },
+      dispatched: this.dispatched,
+      timedOut: this.timedOut,
+      averageWait: this.dispatched > 0 ? this.totalWait / this.dispatched : 0,
+      maxWait: this.maxWait
+    };
+  }
+
+  /**
+   * Hands free slots to queued requests, highest priority first. A request
+   * whose origin is at its limit does not block requests for other origins.
+   */
+  private dispatch(): void {
+    for (const priority of PRIORITIES) {
+      const queue = this.queues[priority];
+
+      for (let i = 0; i < queue.length && this.active < this.options.maxConcurrent;) {
+        const request = queue[i];
+
+        if ((this.activeByOrigin.get(request.origin) ?? 0) >= this.options.maxConcurrentPerOrigin) {
+          i++;
+          continue;
+        }
+
+        queue.splice(i, 1);
+        this.start(request);
+      }
+    }
+  }
+
+  private start(request: QueuedRequest): void {
+    const wait = this.options.clock.now() - request.enqueuedAt;
+    this.active++;
+    this.activeByOrigin.set(request.origin, (this.activeByOrigin.get(request.origin) ?? 0) + 1);
+    this.dispatched++;
+    this.totalWait += wait;
+    this.maxWait = Math.max(this.maxWait, wait);
+
+    let released = false;
+    request.grant(() => {
+      if (released) {
+        return;
+      }
+      released = true;
+      this.active--;
+
+      const remaining = (this.activeByOrigin.get(request.origin) ?? 1) - 1;
+      if (remaining > 0) {
+        this.activeByOrigin.set(request.origin, remaining);
+      } else {
+        this.activeByOrigin.delete(request.origin);
+      }
+
+      this.dispatch();
+    });
+  }
+
+  private remove(priority: RequestPriority, request: QueuedRequest): void {
+    const queue = this.queues[priority];
+    const index = queue.indexOf(request);
+    if (index !== -1) {
+      queue.splice(index, 1);
+    }
+  }
+}
@@ -0,0 +1,95 @@
+import type { Clock } from './clock';
+import { AbortError } from './errors';
+
+/**
+ * The timer half of a Clock
+ */
+type Timers = Pick<Clock, 'setTimeout' | 'clearTimeout'>;
+
+/**
+ * The global timers; the default wherever no clock is given
+ */
+const globalTimers: Timers = {
+  setTimeout: (callback, ms) => setTimeout(callback, ms),
+  clearTimeout: handle => clearTimeout(handle as ReturnType<typeof setTimeout> | undefined)
+};
+
+/**
+ * Delays execution for a specified duration
+ * @param ms - Milliseconds to delay
+ * @param signal - Optional signal that cancels the delay
+ * @param timers - Timers to wait on (default: the global timers)
+ * @returns Promise that resolves after the delay, or rejects with AbortError
+ */
+export const delay = (ms: number, signal?: AbortSignal | null, timers: Timers = globalTimers): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new AbortError(undefined, signal.reason));
+      return;
+    }
+
+    const onAbort = () => {
+      timers.clearTimeout(timer);
+      reject(new AbortError(undefined, signal?.reason));
+    };
+
+    const timer = timers.setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+/**
+ * Signal for a single attempt, combining the caller's signal with a timeout
+ */
+export interface AttemptSignal {
+  /** Signal to hand to `fetch` */
+  signal: AbortSignal;
+  /** Whether the attempt was aborted by its timeout */
+  timedOut: () => boolean;
+  /** Clears the timer and detaches from the parent signal */
+  cleanup: () => void;
+}
+
+/**
+ * Creates the signal for one attempt. It aborts when the parent signal aborts
+ * or when the timeout elapses, whichever comes first.
+ * @param parent - The caller's signal, if any
+ * @param timeout - Timeout in milliseconds, if any
+ * @param timers - Timers for the timeout (default: the global timers)
+ * @returns Attempt signal with cleanup
+ */
+export const createAttemptSignal = (
+  parent: AbortSignal | null | undefined,
+  timeout: number | undefined,
+  timers: Timers = globalTimers
+): AttemptSignal => {
+  const controller = new AbortController();
+  let timedOut = false;
+
+  const onAbort = () => controller.abort(parent?.reason);
+
+  if (parent?.aborted) {
+    controller.abort(parent.reason);
+  } else {
+    parent?.addEventListener('abort', onAbort, { once: true });
+  }
+
+  const timer = timeout !== undefined
+    ? timers.setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeout)
+    : undefined;
+
+  return {
+    signal: controller.signal,
+    timedOut: () => timedOut,
+    cleanup: () => {
+      timers.clearTimeout(timer);
+      parent?.removeEventListener('abort', onAbort);
+    }
+  };
+};
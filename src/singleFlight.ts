@@ -0,0 +1,155 @@
+import { AbortError } from './errors';
+import { hashString, hashHeaders, resultShapeKey } from './requestKey';
+import type { RetryConfig } from './types';
+
+/**
+ * Maps a request, and the configuration it is fetched with, to its dedupe
+ * key; return undefined to never dedupe it
+ */
+export type SingleFlightKeyFunction = (url: string, options: RequestInit, config?: Partial<RetryConfig>) => string | undefined;
+
+/**
+ * Configuration options for single-flight deduplication
+ */
+export interface SingleFlightOptions {
+  /** Key function (default: method, URL, headers, a string body, and the config that shapes the result or bounds the wait) */
+  key: SingleFlightKeyFunction;
+}
+
+/**
+ * One shared underlying call and the number of callers still waiting on it
+ */
+interface Flight {
+  promise: Promise<unknown>;
+  controller: AbortController;
+  waiters: number;
+}
+
+/**
+ * Default key: method, URL, request headers, a hash of the body, the parts
+ * of the configuration that shape the result (responseType, validate,
+ * fetch, auth, middleware), and those that bound how long the call may take
+ * (timeout, deadline, maxRetries). Calls that would get different data, or
+ * would give up at a different point, never share a flight. Requests whose
+ * body cannot be inspected without consuming it (streams, FormData, Blob)
+ * are not deduped.
+ * @param url - The URL being fetched
+ * @param options - Fetch options
+ * @param config - Retry configuration of the call
+ * @returns Dedupe key, or undefined to skip deduplication
+ */
+export const defaultSingleFlightKey: SingleFlightKeyFunction = (url, options, config = {}) => {
+  const method = (options.method ?? 'GET').toUpperCase();
+  const { body } = options;
+
+  if (body !== undefined && body !== null && typeof body !== 'string' && !(body instanceof URLSearchParams)) {
+    return undefined;
+  }
+
+  const limits = [config.timeout ?? '-', config.deadline ?? '-', config.maxRetries ?? '-'].join(',');
+
+  return [method, url, hashHeaders(options.headers), body ? hashString(body.toString()) : '-', resultShapeKey(config), limits].join(' ');
+};
+
+/**
+ * Shares one in-flight call between concurrent callers with the same key.
+ * Each caller may abort independently; the shared call is only cancelled
+ * once every caller has gone.
+ */
+export class SingleFlight {
+  public readonly options: SingleFlightOptions;
+  private readonly flights = new Map<string, Flight>();
+
+  constructor(options: Partial<SingleFlightOptions> = {}) {
+    this.options = { key: defaultSingleFlightKey, ...options };
+  }
+
+  /**
+   * Number of distinct calls currently in flight
+   */
+  get size(): number {
+    return this.flights.size;
+  }
+
+  /**
+   * Runs the task, or joins an identical one already in flight
+   * @param url - The URL being fetched
+   * @param options - Fetch options; `options.signal` only cancels this caller's wait
+   * @param task - Starts the underlying call with a signal owned by the group
+   * @param config - Retry configuration of the call, passed to the key function
+   * @returns The shared result
+   */
+  run<R>(url: string, options: RequestInit, task: (signal: AbortSignal) => Promise<R>, config?: Partial<RetryConfig>): Promise<R> {
+    const key = this.options.key(url, options, config);
+
+    if (key === undefined) {
+      return task(options.signal ?? new AbortController().signal);
+    }
+
+    let flight = this.flights.get(key);
+
+    if (!flight) {
+      const controller = new AbortController();
+      const promise = task(controller.signal).finally(() => {
+        if (this.flights.get(key) === flight) {
+          this.flights.delete(key);
+        }
+      });
+      // Nobody may be listening if every caller aborted
+      promise.catch(() => undefined);
+      flight = { promise, controller, waiters: 0 };
+      this.flights.set(key, flight);
+    }
+
+    return this.wait(key, flight, url, options.signal) as Promise<R>;
+  }
+
+  /**
+   * Waits on a flight on behalf of one caller
+   */
+  private wait(key: string, flight: Flight, url: string, signal: AbortSignal | null | undefined): Promise<unknown> {
+    if (signal?.aborted) {
+      return Promise.reject(new AbortError(`Request to ${url} was aborted`, signal.reason));
+    }
+
+    flight.waiters++;
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        this.leave(key, flight);
+        reject(new AbortError(`Request to ${url} was aborted`, signal?.reason));
+      };
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      flight.promise.then(
+        value => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve(value);
+        },
+        error => {
+          signal?.removeEventListener('abort', onAbort);
+          reject(error);
+        }
+      );
+    });
+  }
+
+  /**
+   * Drops one waiter, cancelling the shared call when none remain
+   */
+  private leave(key: string, flight: Flight): void {
+    flight.waiters--;
+    if (flight.waiters === 0) {
+      if (this.flights.get(key) === flight) {
+        this.flights.delete(key);
+      }
+      flight.controller.abort();
+    }
+  }
+}
+
+/**
+ * Group used when `singleFlight: true` is passed instead of an instance
+ */
+export const defaultSingleFlight = new SingleFlight();
@@ -0,0 +1,156 @@
+import type { CallInstrumentation, CallStartEvent, Instrumentation } from './instrumentation';
+import { failureReason } from './instrumentation';
+import { HttpError, MaxRetriesError } from './errors';
+
+/**
+ * Attribute values accepted by spans
+ */
+export type SpanAttributeValue = string | number | boolean;
+
+/**
+ * The subset of an OpenTelemetry `Span` the adapter uses
+ */
+export interface SpanLike {
+  setAttribute(key: string, value: SpanAttributeValue): unknown;
+  addEvent(name: string, attributes?: Record<string, SpanAttributeValue>): unknown;
+  setStatus(status: { code: number; message?: string }): unknown;
+  recordException(exception: Error): unknown;
+  end(): void;
+}
+
+/**
+ * The subset of an OpenTelemetry `Tracer` the adapter uses
+ */
+export interface TracerLike {
+  startSpan(
+    name: string,
+    options?: { kind?: number; attributes?: Record<string, SpanAttributeValue> },
+    context?: unknown
+  ): SpanLike;
+}
+
+/**
+ * Configuration options for the tracing adapter
+ */
+export interface TracingOptions {
+  /** Name of the span for each logical call (default: 'HTTP <method>') */
+  spanName?: (event: CallStartEvent) => string;
+  /**
+   * Returns a context with the call span active, e.g.
+   * `span => trace.setSpan(context.active(), span)`. When given, each attempt
+   * gets a child span; otherwise attempts are recorded as events on the call span.
+   */
+  contextWithSpan?: (span: SpanLike) => unknown;
+}
+
+/**
+ * OpenTelemetry `SpanStatusCode` values
+ */
+const STATUS_OK = 1;
+const STATUS_ERROR = 2;
+
+/**
+ * OpenTelemetry `SpanKind.CLIENT`
+ */
+const KIND_CLIENT = 2;
+
+/**
+ * Traces calls through any OpenTelemetry-compatible tracer, without a runtime
+ * dependency on OpenTelemetry: one client span per logical call, and a child
+ * span (or an event) per attempt.
+ * @param tracer - e.g. `trace.getTracer('my-service')`
+ * @param options - Span naming and parenting
+ * @returns Instrumentation for the `instrumentation` option
+ *
+ * @example
+ * import { context, trace } from '@opentelemetry/api';
+ * const api = createFetcher({
+ *   instrumentation: createTracingInstrumentation(trace.getTracer('api-client'), {
+ *     contextWithSpan: span => trace.setSpan(context.active(), span as Span)
+ *   })
+ * });
+ */
+export function createTracingInstrumentation(tracer: TracerLike, options: TracingOptions = {}): Instrumentation {
+  return {
+    startCall: (event: CallStartEvent): CallInstrumentation => {
+      const { url, method } = event;
+      const span = tracer.startSpan(options.spanName?.(event) ?? `HTTP ${method}`, {
+        kind: KIND_CLIENT,
+        attributes: { 'http.request.method': method, 'url.full': url }
+      });
+      const parent = options.contextWithSpan?.(span);
+      const attemptSpans = new Map<string, SpanLike>();
+
+      return {
+        attemptStart: ({ attempt, hedge }) => {
+          if (parent === undefined) {
+            return;
+          }
+          attemptSpans.set(`${attempt}:${hedge ?? 0}`, tracer.startSpan(`HTTP ${method}`, {
+            kind: KIND_CLIENT,
+            attributes: {
+              'http.request.method': method,
+              'url.full': url,
+              ...(attempt > 1 ? { 'http.request.resend_count': attempt - 1 } : {})
+            }
+          }, parent));
+        },
+
+        attemptEnd: ({ attempt, hedge, duration, status, error }) => {
+          const attributes: Record<string, SpanAttributeValue> = {
+            attempt,
+            ...(hedge !== undefined ? { hedge } : {}),
+            duration_ms: duration,
+            ...(status !== undefined ? { 'http.response.status_code': status } : {}),
+            ...(error ? { 'error.type': failureReason(error) } : {})
+          };
+
+          const key = `${attempt}:${hedge ?? 0}`;
+          const attemptSpan = attemptSpans.get(key);
+          if (!attemptSpan) {
+            span.addEvent('attempt', attributes);
+            return;
+          }
+
+          attemptSpans.delete(key);
+          if (status !== undefined) {
+            attemptSpan.setAttribute('http.response.status_code', status);
+          }
+          if (error) {
+            attemptSpan.setAttribute('error.type', failureReason(error));
+            attemptSpan.recordException(error);
+            attemptSpan.setStatus({ code: STATUS_ERROR, message: error.message });
+          }
+          attemptSpan.end();
+        },
+
+        retry: ({ attempt, delay, reason }) => {
+          span.addEvent('retry', { attempt, delay_ms: delay, reason });
+        },
+
+        end: ({ outcome, attempts, backoff, stopReason, error }) => {
+          span.setAttribute('fetch_retry.attempts', attempts);
+          span.setAttribute('fetch_retry.backoff_ms', backoff);
+          if (attempts > 1) {
+            span.setAttribute('http.request.resend_count', attempts - 1);
+          }
+          if (stopReason) {
+            span.setAttribute('fetch_retry.stop_reason', stopReason);
+          }
+
+          if (outcome === 'success') {
+            span.setStatus({ code: STATUS_OK });
+          } else if (error) {
+            const cause = error instanceof MaxRetriesError && error.lastError instanceof HttpError ? error.lastError : undefined;
+            if (cause) {
+              span.setAttribute('http.response.status_code', cause.status);
+            }
+            span.recordException(error);
+            span.setStatus({ code: STATUS_ERROR, message: error.message });
+          }
+          span.end();
+        }
+      };
+    }
+  };
+}
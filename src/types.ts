@@ -1,21 +1,194 @@
+import type { CircuitBreaker } from './circuitBreaker';
+import type { Logger } from './logger';
+import type { MaxRetriesError } from './errors';
+import type { ResponseType, ResponseValidator } from './responseParser';
+import type { SingleFlight } from './singleFlight';
+import type { ResponseCache } from './cache';
+import type { RequestScheduler, RequestPriority, SchedulerStats } from './scheduler';
+import type { RateLimiter } from './rateLimiter';
+import type { RetryBudget, RetryBudgetStats } from './retryBudget';
+import type { HedgeOptions } from './hedging';
+import type { MiddlewareConfig } from './middleware';
+import type { AuthOptions } from './auth';
+import type { Instrumentation } from './instrumentation';
+import type { EndpointPool, EndpointSnapshot } from './endpoints';
+import { Clock, systemClock } from './clock';
+
+/**
+ * Names of the built-in backoff strategies
+ */
+export type BackoffStrategyName =
+  | 'fixed'
+  | 'linear'
+  | 'exponential'
+  | 'full-jitter'
+  | 'equal-jitter'
+  | 'decorrelated-jitter'
+  | 'fibonacci';
+
+/**
+ * Custom backoff function
+ * @param attempt - The attempt that just failed (1-based)
+ * @param lastError - The error from that attempt
+ * @param previousDelay - Delay used before the previous retry (0 on the first retry)
+ * @returns Delay in milliseconds before the next attempt
+ */
+export type BackoffFunction = (attempt: number, lastError: Error, previousDelay: number) => number;
+
+/**
+ * Hook return type; hooks may be synchronous or async
+ */
+type HookResult<R = void> = R | Promise<R>;
+
+/**
+ * Passed to `onAttempt` before each attempt
+ */
+export interface AttemptEvent {
+  url: string;
+  /** Attempt about to be made (1-based) */
+  attempt: number;
+  /** Upper bound on attempts for this call */
+  maxAttempts: number;
+}
+
+/**
+ * Passed to `onRetry` after a failed attempt, before the backoff delay
+ */
+export interface RetryEvent {
+  url: string;
+  /** The error from the failed attempt */
+  error: Error;
+  /** The attempt that failed (1-based) */
+  attempt: number;
+  /** Delay in milliseconds chosen before the next attempt */
+  delay: number;
+}
+
+/**
+ * Passed to `onSuccess` when the call succeeds
+ */
+export interface SuccessEvent<T = unknown> {
+  url: string;
+  result: FetchWithRetryResult<T>;
+}
+
+/**
+ * Passed to `onGiveUp` when the call fails after its attempts
+ */
+export interface GiveUpEvent {
+  url: string;
+  /** The error about to be thrown */
+  error: MaxRetriesError;
+}
+
 /**
  * Configuration options for the retry mechanism
+ * @typeParam T - Type of the response data, inferred from `validate` when given
  */
-export interface RetryConfig {
+export interface RetryConfig<T = any> {
   /** Maximum number of retry attempts (default: 3) */
   maxRetries: number;
   /** Base delay in milliseconds between retries (default: 1000) */
   baseDelay: number;
   /** Maximum delay in milliseconds for exponential backoff (default: 30000) */
   maxDelay: number;
-  /** Whether to use exponential backoff (default: false) */
+  /** Whether to use exponential backoff; shorthand for `backoff: 'exponential'` (default: false) */
   exponential: boolean;
-  /** Backoff multiplier for exponential strategy (default: 2) */
+  /** Backoff multiplier for the exponential and jitter strategies (default: 2) */
   backoffMultiplier: number;
+  /** Backoff strategy name or custom delay function; overrides `exponential` when set */
+  backoff?: BackoffStrategyName | BackoffFunction;
   /** HTTP status codes that should trigger a retry (default: [429, 500, 502, 503, 504]) */
   retryStatusCodes: number[];
   /** Function to determine if a non-HTTP error should be retried */
   shouldRetry?: (error: unknown) => boolean;
+  /** Use `Retry-After` and rate-limit reset headers to schedule the next attempt (default: true) */
+  respectRetryAfter: boolean;
+  /** Give up instead of retrying when the server asks us to wait longer than this many milliseconds */
+  maxRetryAfter?: number;
+  /** Timeout in milliseconds for each individual attempt */
+  timeout?: number;
+  /** Overall time budget in milliseconds across all attempts and delays */
+  deadline?: number;
+  /** Circuit breaker to consult before each attempt; share one instance to share state */
+  circuitBreaker?: CircuitBreaker;
+  /** Where progress messages go; use `silentLogger` to turn them off (default: console) */
+  logger: Logger;
+  /** Called before each attempt */
+  onAttempt?: (event: AttemptEvent) => HookResult;
+  /** Called before each retry; return false to veto it and give up */
+  onRetry?: (event: RetryEvent) => HookResult<boolean | void>;
+  /** Called once when the call succeeds */
+  onSuccess?: (event: SuccessEvent<T>) => HookResult;
+  /** Called once when the call gives up with MaxRetriesError */
+  onGiveUp?: (event: GiveUpEvent) => HookResult;
+  /** Bytes of an error response's body kept in `HttpError.body`; 0 leaves the body unread (default: 4096) */
+  errorBodyLimit: number;
+  /** How to read the response body (default: 'json') */
+  responseType: ResponseType;
+  /** Validates and narrows the parsed body, e.g. a zod schema */
+  validate?: ResponseValidator<T>;
+  /** Whether ResponseParseError and ValidationError are retried (default: false) */
+  retryOnInvalidResponse: boolean;
+  /** Methods retried by default; others need an idempotency key (default: GET, HEAD, OPTIONS, PUT, DELETE) */
+  retryMethods: string[];
+  /**
+   * Idempotency key sent on unsafe requests and reused across all attempts of one call.
+   * `true` generates a random UUID per call. Setting it also opts POST/PATCH into retries.
+   */
+  idempotencyKey?: boolean | string | (() => string);
+  /** Header carrying the idempotency key (default: 'Idempotency-Key') */
+  idempotencyKeyHeader: string;
+  /**
+   * What to do with a single-use `body` (a ReadableStream or async iterable):
+   * 'buffer' reads it into memory so every attempt can resend it, up to
+   * `maxBufferedBody`; 'refuse' sends it once and gives up instead of retrying
+   * (default: 'buffer'). Either way, a body that cannot be resent ends the
+   * call with stop reason 'body-not-replayable'.
+   */
+  streamBody: 'buffer' | 'refuse';
+  /** Largest stream body in bytes buffered for retries; larger ones are sent once (default: 1 MiB) */
+  maxBufferedBody: number;
+  /** Builds the request body for each attempt, e.g. a fresh stream; replaces `options.body` */
+  bodyFactory?: () => BodyInit | Promise<BodyInit>;
+  /**
+   * Share one retry sequence between concurrent identical calls.
+   * `true` uses a process-wide group (one per createFetcher); pass a SingleFlight to scope it or customise the key.
+   * Calls with `responseType` 'stream' or 'response' are never shared.
+   */
+  singleFlight?: boolean | SingleFlight;
+  /**
+   * Cache GET responses following Cache-Control, with ETag/Last-Modified revalidation.
+   * `true` uses an in-memory LRU (one per createFetcher); pass a ResponseCache for custom storage.
+   */
+  cache?: boolean | ResponseCache;
+  /** Concurrency limiter every attempt queues on; share one instance to share limits */
+  scheduler?: RequestScheduler;
+  /** Queue priority of this call's attempts (default: 'normal') */
+  priority: RequestPriority;
+  /** Token-bucket limiter each attempt takes a token from before it is sent */
+  rateLimit?: RateLimiter;
+  /** Shared budget every retry must be granted by; share one instance across fetchers */
+  retryBudget?: RetryBudget;
+  /** Send extra copies of slow idempotent requests; the first good response wins */
+  hedge?: HedgeOptions;
+  /** Middleware chains run once per call and once per attempt */
+  middleware?: MiddlewareConfig<T>;
+  /**
+   * Base URLs serving the same API; `url` is then a path resolved against the
+   * endpoint each attempt picks, so retries fail over to healthy endpoints.
+   * A list gets a fresh ordered pool per call (one per createFetcher); pass an
+   * EndpointPool to choose the policy and share health between calls.
+   */
+  endpoints?: string[] | EndpointPool;
+  /** Sends a bearer token and refreshes it once, replaying the request, on 401 */
+  auth?: AuthOptions;
+  /** `fetch` implementation used for every attempt (default: the global `fetch`) */
+  fetch?: (input: RequestInfo | URL, init?: RequestInit) => Promise<Response>;
+  /** Time source for backoff sleeps, timeouts, deadlines and durations (default: the system clock) */
+  clock: Clock;
+  /** Receives call, attempt and retry events, e.g. a MetricsCollector or tracing adapter */
+  instrumentation?: Instrumentation | Instrumentation[];
 }
 
 /**
@@ -27,7 +200,18 @@ export const DEFAULT_RETRY_CONFIG: RetryConfig = {
   maxDelay: 30000,
   exponential: false,
   backoffMultiplier: 2,
-  retryStatusCodes: [429, 500, 502, 503, 504]
+  retryStatusCodes: [429, 500, 502, 503, 504],
+  respectRetryAfter: true,
+  logger: console,
+  clock: systemClock,
+  errorBodyLimit: 4096,
+  responseType: 'json',
+  retryOnInvalidResponse: false,
+  retryMethods: ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'],
+  idempotencyKeyHeader: 'Idempotency-Key',
+  streamBody: 'buffer',
+  maxBufferedBody: 1024 * 1024,
+  priority: 'normal'
 };
 
 /**
@@ -42,4 +226,37 @@ export interface FetchWithRetryResult<T> {
   duration: number;
   /** Whether the operation succeeded on the first attempt */
   succeededOnRetry: boolean;
+  /** Whether the data was served from the cache, including after a 304 revalidation */
+  fromCache: boolean;
+  /** Headers of the response the data came from; absent when served from the cache without a request */
+  headers?: Headers;
+  /** Age of the cached data in milliseconds, when served from the cache */
+  cacheAge?: number;
+  /** Extra copies sent by hedging across all attempts, when hedging is enabled */
+  hedges?: number;
+  /** Which copy of the final attempt answered (0 = the original request), when hedging is enabled */
+  winningHedge?: number;
+  /** Base URL that answered, when `endpoints` is set */
+  endpoint?: string;
+}
+
+/**
+ * Runtime statistics of a fetcher built with createFetcher
+ */
+export interface FetcherStats {
+  /** Queue depth and wait times, when a scheduler is configured */
+  scheduler?: SchedulerStats;
+  /** Requests and retries in the current window, when a retry budget is configured */
+  retryBudget?: RetryBudgetStats;
+  /** Health and latency of each endpoint, when endpoints are configured */
+  endpoints?: EndpointSnapshot[];
+}
+
+/**
+ * Pre-configured fetch function returned by createFetcher
+ */
+export interface Fetcher<T = any> {
+  (url: string, options?: RequestInit, retryConfig?: Partial<RetryConfig<T>>): Promise<FetchWithRetryResult<T>>;
+  /** Returns runtime statistics for this fetcher */
+  stats(): FetcherStats;
 }
\ No newline at end of file
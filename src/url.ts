@@ -0,0 +1,12 @@
+/**
+ * Returns the origin of a URL, or the URL itself when it cannot be parsed
+ * @param url - Any URL
+ * @returns e.g. 'https://api.example.com'
+ */
+export const originOf = (url: string): string => {
+  try {
+    return new URL(url).origin;
+  } catch {
+    return url;
+  }
+};
@@ -0,0 +1,275 @@
+import assert from 'node:assert/strict';
+import { createHash } from 'node:crypto';
+import { readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { createServer, AddressInfo } from 'node:net';
+import { join } from 'node:path';
+import {
+  fetchWithRetry,
+  createFetcher,
+  downloadWithRetry,
+  startFaultServer,
+  failTimes,
+  silentLogger,
+  MaxRetriesError,
+  HttpError,
+  ConnectionError,
+  TimeoutError,
+  ResponseParseError,
+  ChecksumError,
+  DownloadError,
+  DownloadProgress,
+  FaultServer,
+  RetryConfig
+} from '../../src/index';
+
+/**
+ * End-to-end checks of fetchWithRetry against a local fault-injection server.
+ * Run with: npx ts-node test/integration/integration.test.ts
+ */
+
+const fast: Partial<RetryConfig> = { baseDelay: 10, logger: silentLogger };
+
+/**
+ * Returns a port nothing listens on, by binding an ephemeral port and releasing it
+ */
+const freePort = (): Promise<number> => new Promise((resolve, reject) => {
+  const probe = createServer();
+  probe.once('error', reject);
+  probe.listen(0, '127.0.0.1', () => {
+    const { port } = probe.address() as AddressInfo;
+    probe.close(() => resolve(port));
+  });
+});
+
+const file = Array.from({ length: 2000 }, (_, index) => index % 10).join('');
+const fileSha256 = createHash('sha256').update(file).digest('hex');
+
+const checks: Array<[string, (server: FaultServer) => Promise<void>]> = [
+  ['retries 503s until the server recovers', async server => {
+    const result = await fetchWithRetry(`${server.url}/flaky`, {}, fast);
+    assert.deepEqual(result.data, { ok: true });
+    assert.equal(result.attempts, 3);
+    assert.equal(server.hits('/flaky'), 3);
+  }],
+
+  ['waits as long as Retry-After asks', async server => {
+    const result = await fetchWithRetry(`${server.url}/throttled`, {}, { ...fast, baseDelay: 0 });
+    assert.equal(result.attempts, 2);
+    assert.ok(result.duration >= 1000, `waited only ${result.duration}ms`);
+  }],
+
+  ['times out a slow first byte and retries', async server => {
+    const result = await fetchWithRetry(`${server.url}/slow`, {}, { ...fast, timeout: 100 });
+    assert.equal(result.attempts, 2);
+  }],
+
+  ['recovers from a connection dropped mid-body', async server => {
+    const result = await fetchWithRetry(`${server.url}/dropped`, {}, fast);
+    assert.deepEqual(result.data, { ok: true });
+    assert.equal(result.attempts, 2);
+  }],
+
+  ['classifies a refused connection and records every attempt', async () => {
+    const error = await fetchWithRetry(`http://127.0.0.1:${await freePort()}/`, {}, { ...fast, maxRetries: 1 }).catch(e => e);
+    assert.ok(error instanceof MaxRetriesError);
+    assert.ok(error.lastError instanceof ConnectionError);
+    assert.equal(error.attempts, 2);
+    assert.deepEqual(error.history.map(record => record.error.name), ['ConnectionError', 'ConnectionError']);
+  }],
+
+  ['does not retry truncated JSON by default', async server => {
+    const error = await fetchWithRetry(`${server.url}/truncated`, {}, fast).catch(e => e);
+    assert.ok(error instanceof MaxRetriesError);
+    assert.ok(error.lastError instanceof ResponseParseError);
+    assert.equal(server.hits('/truncated'), 1);
+  }],
+
+  ['retries truncated JSON with retryOnInvalidResponse', async server => {
+    const result = await fetchWithRetry(`${server.url}/truncated`, {}, { ...fast, retryOnInvalidResponse: true });
+    assert.equal(result.attempts, 2);
+  }],
+
+  ['does not retry a 404', async server => {
+    const error = await fetchWithRetry(`${server.url}/missing`, {}, fast).catch(e => e);
+    assert.ok(error instanceof MaxRetriesError);
+    assert.ok(error.lastError instanceof HttpError);
+    assert.equal(error.lastError.status, 404);
+    assert.equal(error.lastError.body, 'Not Found');
+    assert.equal(error.stopReason, 'non-retryable');
+    assert.equal(error.attempts, 1);
+    assert.equal(server.hits('/missing'), 1);
+  }],
+
+  ['gives up after maxRetries', async server => {
+    const error = await fetchWithRetry(`${server.url}/down`, {}, { ...fast, maxRetries: 2 }).catch(e => e);
+    assert.ok(error instanceof MaxRetriesError);
+    assert.equal(server.hits('/down'), 3);
+  }],
+
+  ['fails the call when the deadline passes', async server => {
+    const error = await fetchWithRetry(`${server.url}/hanging`, {}, { ...fast, deadline: 200 }).catch(e => e);
+    assert.ok(error instanceof MaxRetriesError);
+    assert.ok(error.lastError instanceof TimeoutError);
+  }],
+
+  ['resumes a dropped download with Range', async server => {
+    const path = join(tmpdir(), `fetch-retry-${process.pid}.bin`);
+    try {
+      const result = await downloadWithRetry(`${server.url}/file`, { destination: path, sha256: fileSha256, retryConfig: fast });
+      assert.equal(await readFile(path, 'utf8'), file);
+      assert.equal(result.resumes, 1);
+      assert.equal(result.restarts, 0);
+      assert.equal(server.requests[1].headers.range, 'bytes=500-');
+      assert.equal(server.requests[1].headers['if-range'], '"v1"');
+    } finally {
+      await rm(path, { force: true });
+    }
+  }],
+
+  ['restarts a download when the server ignores Range', async server => {
+    const chunks: Uint8Array[] = [];
+    const result = await downloadWithRetry(`${server.url}/file-no-ranges`, {
+      destination: { write: chunk => { chunks.push(chunk); }, reset: () => { chunks.length = 0; } },
+      retryConfig: fast
+    });
+    assert.equal(Buffer.concat(chunks).toString(), file);
+    assert.equal(result.restarts, 1);
+    assert.equal(result.sha256, fileSha256);
+  }],
+
+  ['restarts a download when the ETag changed on the 206', async server => {
+    const chunks: Uint8Array[] = [];
+    const result = await downloadWithRetry(`${server.url}/file-changed`, {
+      destination: { write: chunk => { chunks.push(chunk); }, reset: () => { chunks.length = 0; } },
+      retryConfig: fast
+    });
+    assert.equal(Buffer.concat(chunks).toString(), file);
+    assert.equal(result.resumes, 0);
+    assert.equal(result.restarts, 1);
+    assert.equal(result.etag, '"v2"');
+    assert.equal(server.requests[1].headers.range, 'bytes=500-');
+    assert.equal(server.requests[2].headers.range, undefined);
+  }],
+
+  ['restarts a download when the server answers the range with 416', async server => {
+    const chunks: Uint8Array[] = [];
+    const result = await downloadWithRetry(`${server.url}/file-unsatisfiable`, {
+      destination: { write: chunk => { chunks.push(chunk); }, reset: () => { chunks.length = 0; } },
+      retryConfig: fast
+    });
+    assert.equal(Buffer.concat(chunks).toString(), file);
+    assert.equal(result.restarts, 1);
+    assert.equal(result.attempts, 3);
+  }],
+
+  ['gives up once interruptions exceed maxResumes', async server => {
+    const error = await downloadWithRetry(`${server.url}/file-dropping`, {
+      destination: { write: () => undefined },
+      maxResumes: 1,
+      retryConfig: fast
+    }).catch(e => e);
+    assert.ok(error instanceof MaxRetriesError);
+    assert.equal(error.stopReason, 'exhausted');
+    assert.equal(server.hits('/file-dropping'), 2);
+  }],
+
+  ['fails with DownloadError when a restart is needed and the sink has no reset', async server => {
+    const error = await downloadWithRetry(`${server.url}/file-no-ranges`, { destination: { write: () => undefined }, retryConfig: fast }).catch(e => e);
+    assert.ok(error instanceof DownloadError);
+    assert.equal(error.received, 500);
+  }],
+
+  ['reports progress after each chunk, with the total size', async server => {
+    const progress: DownloadProgress[] = [];
+    await downloadWithRetry(`${server.url}/file`, { destination: { write: () => undefined }, retryConfig: fast, onProgress: update => progress.push(update) });
+    assert.ok(progress.length >= 2);
+    assert.ok(progress.every((update, index) => update.total === 2000 && (index === 0 || update.received > progress[index - 1].received)));
+    assert.deepEqual(progress[progress.length - 1], { received: 2000, total: 2000 });
+  }],
+
+  ['resumes a download whose body stalls for longer than the timeout', async server => {
+    const chunks: Uint8Array[] = [];
+    const result = await downloadWithRetry(`${server.url}/file-stalled`, {
+      destination: { write: chunk => { chunks.push(chunk); } },
+      retryConfig: { ...fast, timeout: 100 }
+    });
+    assert.equal(Buffer.concat(chunks).toString(), file);
+    assert.equal(result.resumes, 1);
+    assert.equal(server.requests[1].headers.range, 'bytes=500-');
+  }],
+
+  ['ends a download that keeps stalling at the deadline', async server => {
+    const startedAt = Date.now();
+    const error = await downloadWithRetry(`${server.url}/file-stalling`, {
+      destination: { write: () => undefined },
+      retryConfig: { ...fast, timeout: 100, deadline: 300 }
+    }).catch(e => e);
+    assert.ok(error instanceof MaxRetriesError);
+    assert.ok(error.lastError instanceof TimeoutError);
+    assert.equal(error.lastError.kind, 'deadline');
+    assert.ok(Date.now() - startedAt < 1000, `took ${Date.now() - startedAt}ms`);
+  }],
+
+  ['rejects a download with the wrong checksum', async server => {
+    const error = await downloadWithRetry(`${server.url}/file`, { destination: { write: () => undefined }, sha256: '00', retryConfig: fast }).catch(e => e);
+    assert.ok(error instanceof ChecksumError);
+    assert.equal(error.actual, fileSha256);
+  }],
+
+  ['fails over to a healthy endpoint and keeps the failed one ejected', async server => {
+    const api = createFetcher({ ...fast, endpoints: [`${server.url}/eu`, `${server.url}/us`] });
+    const first = await api('/status');
+    assert.equal(first.endpoint, `${server.url}/us`);
+    assert.equal(first.attempts, 2);
+
+    const second = await api('/status');
+    assert.equal(second.endpoint, `${server.url}/us`);
+    assert.equal(second.attempts, 1);
+    assert.equal(server.hits('/eu/status'), 1);
+  }]
+];
+
+async function runIntegrationTests(): Promise<void> {
+  const server = await startFaultServer([
+    { path: '/flaky', responses: failTimes(2) },
+    { path: '/throttled', responses: failTimes(1, { status: 429, retryAfter: 1 }) },
+    { path: '/slow', responses: [{ firstByteDelay: 500, body: { slow: true } }, { body: { slow: false } }] },
+    { path: '/dropped', responses: failTimes(1, { body: { ok: true, padding: 'x'.repeat(100) }, dropAfterBytes: 5 }) },
+    { path: '/truncated', responses: failTimes(1, { body: { ok: true }, truncateAt: 5 }) },
+    { path: '/down', responses: [{ status: 500 }] },
+    { path: '/hanging', responses: [{ firstByteDelay: 2000 }] },
+    { path: '/file', responses: failTimes(1, { body: file, headers: { ETag: '"v1"' }, ranges: true, dropAfterBytes: 500 }, { body: file, headers: { ETag: '"v1"' }, ranges: true }) },
+    { path: '/eu/status', responses: [{ status: 503 }] },
+    { path: '/us/status', responses: [{ body: { region: 'us' } }] },
+    { path: '/file-changed', responses: failTimes(1, { body: file, headers: { ETag: 'W/"v1"' }, ranges: true, dropAfterBytes: 500 }, { body: file, headers: { ETag: '"v2"' }, ranges: true }) },
+    { path: '/file-unsatisfiable', responses: [{ body: file, headers: { ETag: '"v1"' }, ranges: true, dropAfterBytes: 500 }, { status: 416 }, { body: file, headers: { ETag: '"v1"' } }] },
+    { path: '/file-dropping', responses: [{ body: file, headers: { ETag: '"v1"' }, ranges: true, dropAfterBytes: 500 }] },
+    { path: '/file-stalled', responses: failTimes(1, { body: file, headers: { ETag: '"v1"' }, ranges: true, stallAfterBytes: 500 }, { body: file, headers: { ETag: '"v1"' }, ranges: true }) },
+    { path: '/file-stalling', responses: [{ body: file, headers: { ETag: '"v1"' }, ranges: true, stallAfterBytes: 500 }] },
+    { path: '/file-no-ranges', responses: failTimes(1, { body: file, dropAfterBytes: 500 }, { body: file }) }
+  ]);
+
+  let failures = 0;
+  try {
+    for (const [name, check] of checks) {
+      server.reset();
+      try {
+        await check(server);
+        console.log(`✅ ${name}`);
+      } catch (error) {
+        failures++;
+        console.log(`❌ ${name}\n   ${(error as Error).message}`);
+      }
+    }
+  } finally {
+    await server.close();
+  }
+
+  console.log(`\n${checks.length - failures}/${checks.length} integration checks passed`);
+  if (failures > 0) {
+    process.exitCode = 1;
+  }
+}
+
+runIntegrationTests();
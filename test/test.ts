@@ -1,49 +1,13 @@
-import { 
-  fetchWithRetry, 
-  createFetcher, 
-  mockApiCall, 
-  resetMockAttemptCount,
-  MaxRetriesError 
+import {
+  fetchWithRetry,
+  createFetcher,
+  createMockFetch,
+  MaxRetriesError
 } from '../src/index';
 
 /**
- * Creates a mock fetch function that uses our mockApiCall
- * This simulates real fetch behavior without requiring actual HTTP requests
- */
-function createMockFetch(successProbability: number = 0.3) {
-  return async (url: string): Promise<Response> => {
-    try {
-      const result = await mockApiCall({ successProbability });
-      
-      // Create a mock Response object that matches the Fetch API
-      return {
-        ok: true,
-        status: 200,
-        statusText: 'OK',
-        url: url,
-        json: async () => result,
-        text: async () => JSON.stringify(result),
-        headers: new Headers(),
-      } as Response;
-    } catch (error) {
-      // Simulate different types of HTTP errors
-      const randomStatus = Math.random() > 0.5 ? 500 : 429;
-      
-      return {
-        ok: false,
-        status: randomStatus,
-        statusText: error instanceof Error ? error.message : 'Unknown error',
-        url: url,
-        json: async () => ({ error: 'Mock API failure' }),
-        text: async () => 'Mock API failure',
-        headers: new Headers(),
-      } as Response;
-    }
-  };
-}
-
-/**
- * Demonstration of the fetchWithRetry functionality with proper mocking
+ * Demonstration of the fetchWithRetry functionality with proper mocking.
+ * Every fetch goes to a seeded mock, so each run prints the same outcomes.
  */
 async function demonstrateFetcher(): Promise<void> {
   console.log('🚀 Starting EaglePoint AI Async Fetcher Demo\n');
@@ -51,17 +15,17 @@ async function demonstrateFetcher(): Promise<void> {
   // Test 1: Basic usage with low success probability to demonstrate retries
   console.log('1. Testing with Low Success Rate (30%):');
   console.log('='.repeat(50));
-  
-  // Replace global fetch with our mock for testing
-  const originalFetch = global.fetch;
-  (global as any).fetch = createMockFetch(0.3);
-  
-  resetMockAttemptCount();
+
+  const unreliable = createMockFetch({
+    seed: 1,
+    routes: [{ match: 'https://api.mock.com/*', random: { failureRate: 0.7, failure: { status: 429 } } }]
+  });
+
   try {
     const result = await fetchWithRetry(
       'https://api.mock.com/data',
       { method: 'GET' },
-      { maxRetries: 3, baseDelay: 500 }
+      { maxRetries: 3, baseDelay: 500, fetch: unreliable }
     );
     console.log('✅ Success:', result.data);
     console.log(`   Attempts: ${result.attempts}, Duration: ${result.duration}ms`);
@@ -76,17 +40,18 @@ async function demonstrateFetcher(): Promise<void> {
   // Test 2: Using createFetcher with higher success probability
   console.log('\n2. Testing Pre-configured Fetcher (70% Success):');
   console.log('='.repeat(50));
-  
+
   const robustFetcher = createFetcher({
     maxRetries: 3,
     baseDelay: 1000,
     exponential: true,
-    backoffMultiplier: 2
+    backoffMultiplier: 2,
+    fetch: createMockFetch({
+      seed: 2,
+      routes: [{ match: 'https://api.robust.com/*', random: { failureRate: 0.3, success: { body: { message: 'Hello from the robust API' } } } }]
+    })
   });
 
-  (global as any).fetch = createMockFetch(0.7);
-  resetMockAttemptCount();
-  
   try {
     const result = await robustFetcher('https://api.robust.com/data');
     console.log('✅ Success with configured fetcher:', result.data.message);
@@ -99,24 +64,26 @@ async function demonstrateFetcher(): Promise<void> {
   // Test 3: Testing with different retry strategies
   console.log('\n3. Comparing Retry Strategies (50% Success):');
   console.log('='.repeat(50));
-  
+
   const strategies = [
     { name: 'Fixed Delay', exponential: false, baseDelay: 1000 },
     { name: 'Exponential Backoff', exponential: true, baseDelay: 500, backoffMultiplier: 2 }
   ];
 
-  (global as any).fetch = createMockFetch(0.5);
-  
   for (const strategy of strategies) {
     console.log(`\nTesting ${strategy.name}:`);
-    resetMockAttemptCount();
-    
+    // Same seed for both, so each strategy sees the same failures
+    const fetch = createMockFetch({
+      seed: 7,
+      routes: [{ match: 'https://api.strategy.com/*', random: { failureRate: 0.5 } }]
+    });
+
     const startTime = Date.now();
     try {
       const result = await fetchWithRetry(
         'https://api.strategy.com/test',
         {},
-        { ...strategy, maxRetries: 3 }
+        { ...strategy, maxRetries: 3, fetch }
       );
       const duration = Date.now() - startTime;
       console.log(`✅ ${strategy.name} succeeded in ${duration}ms (attempt ${result.attempts})`);
@@ -129,57 +96,53 @@ async function demonstrateFetcher(): Promise<void> {
   // Test 4: Testing HTTP error retry logic
   console.log('\n4. Testing HTTP Error Retry Logic:');
   console.log('='.repeat(50));
-  
-  // Create a mock that only returns HTTP errors
-  (global as any).fetch = async (url: string): Promise<Response> => {
-    return {
-      ok: false,
-      status: 503, // Service Unavailable - should trigger retry
-      statusText: 'Service Unavailable',
-      url: url,
-      json: async () => ({ error: 'Service temporarily unavailable' }),
-      text: async () => 'Service temporarily unavailable',
-      headers: new Headers(),
-    } as Response;
-  };
-
-  resetMockAttemptCount();
+
+  // A mock that only returns HTTP errors
+  const unavailable = createMockFetch({
+    routes: [{
+      match: 'https://api.error-test.com/*',
+      outcomes: [{ status: 503, statusText: 'Service Unavailable', body: { error: 'Service temporarily unavailable' } }]
+    }]
+  });
+
   try {
     await fetchWithRetry(
       'https://api.error-test.com/data',
       {},
-      { maxRetries: 2, baseDelay: 800 }
+      { maxRetries: 2, baseDelay: 800, fetch: unavailable }
     );
     console.log('✅ Unexpected success - this should not happen');
   } catch (error) {
     if (error instanceof MaxRetriesError) {
       console.log('✅ Correctly handled HTTP errors after retries');
-      console.log(`   Failed after ${error.attempts} attempts`);
+      console.log(`   Failed after ${error.attempts} attempts (${unavailable.calls.length} requests sent)`);
     } else {
       console.log('❌ Unexpected error type:', error);
     }
   }
 
-  // Test 5: Direct mock API testing
-  console.log('\n5. Direct Mock API Testing:');
+  // Test 5: Direct mock fetch testing
+  console.log('\n5. Direct Mock Fetch Testing:');
   console.log('='.repeat(50));
-  
-  console.log('Testing mock API with 5 calls (50% success rate):');
+
+  const direct = createMockFetch({
+    seed: 5,
+    routes: [{ match: 'https://api.direct.com/*', random: { failureRate: 0.5 } }]
+  });
+
+  console.log('Testing mock fetch with 5 calls (50% success rate):');
   for (let i = 0; i < 5; i++) {
-    resetMockAttemptCount();
-    try {
-      const result = await mockApiCall({ successProbability: 0.5 });
-      console.log(`   Call ${i + 1}: ✅ Success - ${result.message}`);
-    } catch (error) {
-      console.log(`   Call ${i + 1}: ❌ Failed - ${(error as Error).message}`);
+    const response = await direct('https://api.direct.com/ping');
+    if (response.ok) {
+      console.log(`   Call ${i + 1}: ✅ Success - ${await response.text()}`);
+    } else {
+      console.log(`   Call ${i + 1}: ❌ Failed - HTTP ${response.status}`);
     }
   }
-
-  // Restore original fetch
-  (global as any).fetch = originalFetch;
+  console.log(`   Recorded calls: ${direct.callsTo('https://api.direct.com/ping').length}`);
 
   console.log('\n🎉 Demo completed!');
 }
 
 // Run the demonstration
-demonstrateFetcher().catch(console.error);
\ No newline at end of file
+demonstrateFetcher().catch(console.error);
@@ -0,0 +1,99 @@
+import assert from 'node:assert/strict';
+import { createFetcher, createMockFetch, silentLogger, MaxRetriesError, HttpError, AuthOptions } from '../../src/index';
+import { runChecks } from './check';
+
+/**
+ * Token store whose refresh swaps in the next token and counts calls
+ */
+const tokenStore = (tokens: string[]) => {
+  let current = 0;
+  const store = {
+    refreshes: 0,
+    getToken: () => tokens[current],
+    refresh: async () => {
+      store.refreshes++;
+      await new Promise(resolve => setTimeout(resolve, 5));
+      current = Math.min(current + 1, tokens.length - 1);
+      return tokens[current];
+    }
+  };
+  return store;
+};
+
+/**
+ * API that accepts only the given Authorization value
+ */
+const apiAccepting = (authorization: string, rejection = 401) => createMockFetch({
+  routes: [
+    { match: (_url, init) => new Headers(init?.headers).get('authorization') === authorization, outcomes: [{ body: { ok: true } }] },
+    { match: () => true, outcomes: [{ status: rejection }] }
+  ]
+});
+
+runChecks('auth refresh', [
+  ['refreshes once on 401 and replays within the same attempt', async () => {
+    const store = tokenStore(['old', 'new']);
+    const fetch = apiAccepting('Bearer new');
+    const api = createFetcher({ fetch, logger: silentLogger, auth: store });
+
+    const result = await api('https://api.test/me');
+
+    assert.equal(result.attempts, 1);
+    assert.equal(store.refreshes, 1);
+    assert.deepEqual(fetch.calls.map(call => call.headers.get('authorization')), ['Bearer old', 'Bearer new']);
+  }],
+
+  ['coalesces concurrent refreshes into one', async () => {
+    const store = tokenStore(['old', 'new']);
+    const fetch = apiAccepting('Bearer new');
+    const api = createFetcher({ fetch, logger: silentLogger, auth: store });
+
+    await Promise.all([api('https://api.test/a'), api('https://api.test/b'), api('https://api.test/c')]);
+
+    assert.equal(store.refreshes, 1);
+    assert.equal(fetch.calls.length, 6);
+  }],
+
+  ['does not refresh again when the new token is rejected too', async () => {
+    const store = tokenStore(['old', 'new']);
+    const fetch = apiAccepting('Bearer never');
+    const api = createFetcher({ fetch, logger: silentLogger, auth: store });
+
+    const error = await api('https://api.test/me').catch(e => e);
+
+    assert.ok(error instanceof MaxRetriesError);
+    assert.ok(error.lastError instanceof HttpError);
+    assert.equal(error.lastError.status, 401);
+    assert.equal(error.attempts, 1);
+    assert.equal(store.refreshes, 1);
+    assert.equal(fetch.calls.length, 2);
+  }],
+
+  ['uses the configured header, scheme and refresh predicate', async () => {
+    const store = tokenStore(['k1', 'k2']);
+    const auth: AuthOptions = { ...store, header: 'X-Api-Key', scheme: '', shouldRefresh: response => response.status === 419 };
+    const fetch = createMockFetch({
+      routes: [
+        { match: (_url, init) => new Headers(init?.headers).get('x-api-key') === 'k2', outcomes: [{ body: {} }] },
+        { match: () => true, outcomes: [{ status: 419 }] }
+      ]
+    });
+    const api = createFetcher({ fetch, logger: silentLogger, auth });
+
+    await api('https://api.test/me');
+
+    assert.deepEqual(fetch.calls.map(call => call.headers.get('x-api-key')), ['k1', 'k2']);
+    assert.equal(fetch.calls[0].headers.get('authorization'), null);
+  }],
+
+  ['leaves other statuses to the normal retry rules', async () => {
+    const store = tokenStore(['old', 'new']);
+    const fetch = apiAccepting('Bearer none', 403);
+    const api = createFetcher({ fetch, logger: silentLogger, auth: store });
+
+    await api('https://api.test/me').catch(() => undefined);
+
+    assert.equal(store.refreshes, 0);
+    assert.equal(fetch.calls.length, 1);
+  }]
+]);
@@ -0,0 +1,116 @@
+import assert from 'node:assert/strict';
+import { fetchWithRetry, createMockFetch, silentLogger, VirtualClock, BackoffFunction, BackoffStrategyName, HttpError } from '../../src/index';
+import { calculateDelay } from '../../src/backoff';
+import { DEFAULT_RETRY_CONFIG } from '../../src/types';
+import { runChecks, Check } from './check';
+
+/**
+ * Fails five times, then succeeds, recording the delay chosen before each
+ * retry; runs on a virtual clock so the duration is exactly the delays
+ */
+const delaysOf = async (backoff: BackoffStrategyName | BackoffFunction | undefined, extra = {}) => {
+  const clock = new VirtualClock();
+  const fetch = createMockFetch({
+    clock,
+    routes: [{ match: 'https://api.test/a', outcomes: [{ status: 503 }, { status: 503 }, { status: 503 }, { status: 503 }, { status: 503 }, { body: {} }] }]
+  });
+  const delays: number[] = [];
+
+  const pending = fetchWithRetry('https://api.test/a', {}, {
+    fetch,
+    clock,
+    logger: silentLogger,
+    maxRetries: 5,
+    baseDelay: 100,
+    maxDelay: 1000,
+    ...(backoff ? { backoff } : {}),
+    ...extra,
+    onRetry: event => {
+      delays.push(event.delay);
+    }
+  });
+  await clock.runAll();
+  const result = await pending;
+
+  const sent = fetch.calls.map(call => call.timestamp);
+  assert.deepEqual(sent.slice(1).map((at, i) => at - sent[i]), delays);
+  return { delays, duration: result.duration };
+};
+
+/**
+ * Runs a check with Math.random pinned to one value
+ */
+const withRandom = (value: number, check: () => Promise<void>) => async () => {
+  const random = Math.random;
+  Math.random = () => value;
+  try {
+    await check();
+  } finally {
+    Math.random = random;
+  }
+};
+
+const strategy = (name: string, expected: number[], backoff?: BackoffStrategyName | BackoffFunction, extra = {}): Check =>
+  [name, async () => {
+    const { delays, duration } = await delaysOf(backoff, extra);
+    assert.deepEqual(delays, expected);
+    assert.equal(duration, expected.reduce((sum, delay) => sum + delay, 0));
+  }];
+
+runChecks('backoff', [
+  strategy('fixed is the default', [100, 100, 100, 100, 100], undefined),
+  strategy('linear grows by baseDelay', [100, 200, 300, 400, 500], 'linear'),
+  strategy('exponential doubles up to maxDelay', [100, 200, 400, 800, 1000], 'exponential'),
+  strategy('exponential: true is shorthand for exponential', [100, 200, 400, 800, 1000], undefined, { exponential: true }),
+  strategy('backoffMultiplier sets the exponential growth', [100, 300, 900, 1000, 1000], 'exponential', { backoffMultiplier: 3 }),
+  strategy('fibonacci follows the sequence', [100, 100, 200, 300, 500], 'fibonacci'),
+  strategy('a custom function is clamped to maxDelay', [0, 500, 1000, 1000, 1000], attempt => (attempt - 1) * 500),
+
+  ['full-jitter picks within [0, exponential]', withRandom(0.5, async () => {
+    const { delays, duration } = await delaysOf('full-jitter');
+    assert.deepEqual(delays, [50, 100, 200, 400, 500]);
+    assert.equal(duration, 1250);
+  })],
+
+  ['equal-jitter keeps half the exponential delay', withRandom(0.5, async () => {
+    const { delays, duration } = await delaysOf('equal-jitter');
+    assert.deepEqual(delays, [75, 150, 300, 600, 750]);
+    assert.equal(duration, 1875);
+  })],
+
+  ['decorrelated-jitter grows from the previous delay', withRandom(0.5, async () => {
+    const { delays, duration } = await delaysOf('decorrelated-jitter');
+    assert.deepEqual(delays, [200, 350, 575, 913, 1000]);
+    assert.equal(duration, 3038);
+  })],
+
+  ['jitter stays within its bounds at the extremes', async () => {
+    for (const value of [0, 0.999999]) {
+      await withRandom(value, async () => {
+        const full = await delaysOf('full-jitter');
+        assert.deepEqual(full.delays, value === 0 ? [0, 0, 0, 0, 0] : [100, 200, 400, 800, 1000]);
+        const equal = await delaysOf('equal-jitter');
+        assert.deepEqual(equal.delays, value === 0 ? [50, 100, 200, 400, 500] : [100, 200, 400, 800, 1000]);
+      })();
+    }
+  }],
+
+  ['passes the attempt, error and previous delay to a custom function', () => {
+    const error = new HttpError(503, 'Service Unavailable', 'https://api.test/a');
+    const seen: unknown[] = [];
+    const backoff: BackoffFunction = (attempt, lastError, previousDelay) => {
+      seen.push([attempt, lastError, previousDelay]);
+      return -50;
+    };
+
+    assert.equal(calculateDelay(3, { ...DEFAULT_RETRY_CONFIG, backoff }, error, 400), 0);
+    assert.deepEqual(seen, [[3, error, 400]]);
+  }],
+
+  ['seeds decorrelated-jitter from baseDelay on the first retry', withRandom(0.999999, async () => {
+    const config = { ...DEFAULT_RETRY_CONFIG, backoff: 'decorrelated-jitter' as const, baseDelay: 100, maxDelay: 10000 };
+    const error = new Error('x');
+    assert.equal(calculateDelay(1, config, error, 0), 300);
+    assert.equal(calculateDelay(2, config, error, 300), 900);
+  })]
+]);
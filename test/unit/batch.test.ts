@@ -0,0 +1,150 @@
+import assert from 'node:assert/strict';
+import {
+  fetchAllWithRetry,
+  streamAllWithRetry,
+  createMockFetch,
+  silentLogger,
+  VirtualClock,
+  RetryBudget,
+  MaxRetriesError,
+  AbortError,
+  BatchProgress,
+  BatchResult
+} from '../../src/index';
+import { runChecks } from './check';
+
+/**
+ * Drains an async iterable into an array
+ */
+const collect = async <I>(iterable: AsyncIterable<I>): Promise<I[]> => {
+  const items: I[] = [];
+  for await (const item of iterable) {
+    items.push(item);
+  }
+  return items;
+};
+
+runChecks('batch', [
+  ['settles every request in request order, keeping failures', async () => {
+    const fetch = createMockFetch({
+      routes: [
+        { match: 'https://api.test/a', outcomes: [{ body: { id: 'a' } }] },
+        { match: 'https://api.test/b', outcomes: [{ status: 404 }] },
+        { match: 'https://api.test/c', outcomes: [{ body: { id: 'c' } }] }
+      ]
+    });
+    const progress: BatchProgress[] = [];
+
+    const results = await fetchAllWithRetry(
+      ['https://api.test/a', 'https://api.test/b', { url: 'https://api.test/c', options: { method: 'POST' } }],
+      { retryConfig: { fetch, logger: silentLogger }, onProgress: update => progress.push(update) }
+    );
+
+    assert.deepEqual(results.map(result => [result.index, result.url, result.status]), [
+      [0, 'https://api.test/a', 'fulfilled'],
+      [1, 'https://api.test/b', 'rejected'],
+      [2, 'https://api.test/c', 'fulfilled']
+    ]);
+    assert.equal(results[0].status === 'fulfilled' && results[0].value.data.id, 'a');
+    assert.ok(results[1].status === 'rejected' && results[1].reason instanceof MaxRetriesError);
+    assert.equal(fetch.callsTo('https://api.test/c')[0].method, 'POST');
+    assert.equal(progress.length, 3);
+    assert.deepEqual(progress[2], { total: 3, completed: 3, succeeded: 2, failed: 1 });
+  }],
+
+  ['keeps at most `concurrency` requests in flight', async () => {
+    const clock = new VirtualClock();
+    const fetch = createMockFetch({ clock, routes: [{ match: 'https://api.test/*', outcomes: [{ body: { ok: true }, delay: 100 }] }] });
+    const urls = [1, 2, 3, 4, 5].map(n => `https://api.test/${n}`);
+
+    const pending = fetchAllWithRetry(urls, { concurrency: 2, retryConfig: { fetch, clock, logger: silentLogger } });
+    await clock.runAll();
+    const results = await pending;
+
+    assert.ok(results.every(result => result.status === 'fulfilled'));
+    assert.deepEqual(fetch.calls.map(call => call.timestamp), [0, 0, 100, 100, 200]);
+  }],
+
+  ['streams results as they settle or in request order', async () => {
+    const clock = new VirtualClock();
+    const fetch = createMockFetch({
+      clock,
+      routes: [
+        { match: 'https://api.test/slow', outcomes: [{ body: 'slow', delay: 300 }] },
+        { match: 'https://api.test/fast', outcomes: [{ body: 'fast', delay: 100 }] },
+        { match: 'https://api.test/mid', outcomes: [{ body: 'mid', delay: 200 }] }
+      ]
+    });
+    const urls = ['https://api.test/slow', 'https://api.test/fast', 'https://api.test/mid'];
+    const retryConfig = { fetch, clock, logger: silentLogger, responseType: 'text' as const };
+
+    const byCompletion = collect(streamAllWithRetry(urls, { retryConfig }));
+    await clock.runAll();
+    assert.deepEqual((await byCompletion).map(result => result.status === 'fulfilled' && result.value.data), ['fast', 'mid', 'slow']);
+
+    const byInput = collect(streamAllWithRetry(urls, { retryConfig, order: 'input' }));
+    await clock.runAll();
+    assert.deepEqual((await byInput).map(result => result.index), [0, 1, 2]);
+  }],
+
+  ['stops starting requests after the first failure with failFast', async () => {
+    const fetch = createMockFetch({
+      routes: [
+        { match: 'https://api.test/bad', outcomes: [{ status: 400 }] },
+        { match: 'https://api.test/*', outcomes: [{ body: { ok: true } }] }
+      ]
+    });
+
+    const results = await fetchAllWithRetry(
+      ['https://api.test/bad', 'https://api.test/1', 'https://api.test/2'],
+      { concurrency: 1, failFast: true, retryConfig: { fetch, logger: silentLogger } }
+    );
+
+    assert.equal(fetch.calls.length, 1);
+    assert.deepEqual(results.map(result => result.status), ['rejected', 'rejected', 'rejected']);
+    assert.ok(results.slice(1).every(result => result.status === 'rejected' && result.reason instanceof AbortError));
+  }],
+
+  ['shares one retry budget across the batch', async () => {
+    const fetch = createMockFetch({ routes: [{ match: 'https://api.test/*', outcomes: [{ status: 503 }] }] });
+    const retryBudget = new RetryBudget({ ratio: 0, minRetriesPerSecond: 0.1, window: 10000 });
+
+    const results = await fetchAllWithRetry(
+      ['https://api.test/1', 'https://api.test/2', 'https://api.test/3'],
+      { concurrency: 1, retryBudget, retryConfig: { fetch, logger: silentLogger, baseDelay: 1, maxRetries: 3 } }
+    );
+
+    // 0.1 retries per second over 10s leaves one retry for the whole batch
+    assert.equal(fetch.calls.length, 4);
+    assert.deepEqual(retryBudget.stats(), { requests: 3, retries: 1, available: 0 });
+    assert.deepEqual(
+      results.map(result => result.status === 'rejected' && result.reason instanceof MaxRetriesError && result.reason.stopReason),
+      ['budget-denied', 'budget-denied', 'budget-denied']
+    );
+  }],
+
+  ['aborts requests in flight when cancelled or abandoned', async () => {
+    const fetch = createMockFetch({
+      routes: [
+        { match: 'https://api.test/fast', outcomes: [{ body: { id: 'fast' } }] },
+        { match: 'https://api.test/*', outcomes: [{ hang: true }] }
+      ]
+    });
+    const retryConfig = { fetch, logger: silentLogger };
+    const settled: BatchResult[] = [];
+
+    for await (const result of streamAllWithRetry(['https://api.test/fast', 'https://api.test/hang'], { retryConfig, onProgress: (_, result) => settled.push(result) })) {
+      assert.equal(result.url, 'https://api.test/fast');
+      break;
+    }
+    // The loop only returns once the abandoned request has been aborted
+    assert.deepEqual(settled.map(result => result.status), ['fulfilled', 'rejected']);
+    assert.ok(settled[1].status === 'rejected' && settled[1].reason instanceof AbortError);
+
+    const controller = new AbortController();
+    const pending = fetchAllWithRetry(['https://api.test/hang'], { retryConfig, signal: controller.signal });
+    setTimeout(() => controller.abort(), 5);
+
+    assert.ok(await pending.catch(e => e) instanceof AbortError);
+  }]
+]);
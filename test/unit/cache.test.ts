@@ -0,0 +1,203 @@
+import assert from 'node:assert/strict';
+import {
+  createFetcher,
+  createMockFetch,
+  silentLogger,
+  VirtualClock,
+  ResponseCache,
+  MemoryCacheStore,
+  MaxRetriesError,
+  MockOutcome,
+  CacheEntry,
+  RetryConfig,
+  ValidationError,
+  CircuitBreaker,
+  RequestScheduler
+} from '../../src/index';
+import { runChecks } from './check';
+
+const URL = 'https://api.test/config';
+
+/**
+ * A fetcher with its own cache on a virtual clock, serving the given outcomes
+ */
+const setup = (outcomes: MockOutcome[], cacheOptions = {}) => {
+  const clock = new VirtualClock();
+  const fetch = createMockFetch({ clock, routes: [{ match: URL, outcomes }] });
+  const cache = new ResponseCache({ clock, ...cacheOptions });
+  const api = createFetcher({ fetch, clock, cache, logger: silentLogger, maxRetries: 1, baseDelay: 100 });
+  const get = async (options?: RequestInit, retryConfig?: Partial<RetryConfig>) => {
+    const pending = api(URL, options, retryConfig);
+    // Settles while the clock runs; awaited by the caller
+    pending.catch(() => undefined);
+    await clock.runAll();
+    return pending;
+  };
+  return { clock, fetch, cache, get };
+};
+
+runChecks('response cache', [
+  ['serves fresh entries without a request and reports their age', async () => {
+    const { clock, fetch, get } = setup([{ body: { v: 1 }, headers: { 'Cache-Control': 'max-age=60' } }]);
+
+    const first = await get();
+    await clock.advance(10000);
+    const second = await get();
+
+    assert.equal(first.fromCache, false);
+    assert.equal(second.fromCache, true);
+    assert.equal(second.cacheAge, 10000);
+    assert.deepEqual(second.data, { v: 1 });
+    assert.equal(fetch.calls.length, 1);
+
+    await clock.advance(50000);
+    assert.equal((await get()).fromCache, false);
+    assert.equal(fetch.calls.length, 2);
+  }],
+
+  ['never stores no-store responses', async () => {
+    const { fetch, get } = setup([{ body: {}, headers: { 'Cache-Control': 'no-store, max-age=60' } }]);
+    await get();
+    await get();
+    assert.equal(fetch.calls.length, 2);
+  }],
+
+  ['revalidates with the ETag and treats 304 as a hit', async () => {
+    const { clock, fetch, get } = setup([
+      { body: { v: 1 }, headers: { ETag: '"v1"', 'Cache-Control': 'max-age=10' } },
+      { status: 304, headers: { 'Cache-Control': 'max-age=10' } }
+    ]);
+
+    await get();
+    await clock.advance(15000);
+    const revalidated = await get();
+
+    assert.equal(fetch.calls[1].headers.get('if-none-match'), '"v1"');
+    assert.equal(revalidated.fromCache, true);
+    assert.equal(revalidated.cacheAge, 0);
+    assert.deepEqual(revalidated.data, { v: 1 });
+
+    // The 304 renewed the freshness, so the next call needs no request
+    await clock.advance(5000);
+    await get();
+    assert.equal(fetch.calls.length, 2);
+  }],
+
+  ['revalidates with Last-Modified and replaces the entry on 200', async () => {
+    const lastModified = 'Wed, 31 Dec 2025 12:00:00 GMT';
+    const { fetch, get } = setup([
+      { body: { v: 1 }, headers: { 'Last-Modified': lastModified } },
+      { body: { v: 2 } }
+    ]);
+
+    await get();
+    const second = await get();
+
+    assert.equal(fetch.calls[1].headers.get('if-modified-since'), lastModified);
+    assert.equal(second.fromCache, false);
+    assert.deepEqual(second.data, { v: 2 });
+  }],
+
+  ['serves stale data while revalidating in the background', async () => {
+    const { clock, fetch, get } = setup([
+      { body: { v: 1 }, headers: { 'Cache-Control': 'max-age=10, stale-while-revalidate=60' } },
+      { body: { v: 2 }, headers: { 'Cache-Control': 'max-age=10' } }
+    ]);
+
+    await get();
+    await clock.advance(20000);
+    const stale = await get();
+
+    assert.equal(stale.fromCache, true);
+    assert.deepEqual(stale.data, { v: 1 });
+    assert.equal(fetch.calls.length, 2);
+
+    const fresh = await get();
+    assert.deepEqual(fresh.data, { v: 2 });
+    assert.equal(fetch.calls.length, 2);
+  }],
+
+  ['serves stale data when every attempt fails, within stale-if-error', async () => {
+    const { clock, fetch, get } = setup([
+      { body: { v: 1 }, headers: { 'Cache-Control': 'max-age=10, stale-if-error=60' } },
+      { status: 503 }
+    ]);
+
+    await get();
+    await clock.advance(30000);
+    const fallback = await get();
+
+    assert.equal(fallback.fromCache, true);
+    assert.deepEqual(fallback.data, { v: 1 });
+    assert.equal(fallback.attempts, 2);
+    assert.equal(fetch.calls.length, 3);
+
+    await clock.advance(60000);
+    await assert.rejects(get(), MaxRetriesError);
+  }],
+
+  ['serves stale data within stale-if-error when the circuit or queue refuses the call', async () => {
+    const { clock, fetch, get } = setup([{ body: { v: 1 }, headers: { 'Cache-Control': 'max-age=1, stale-if-error=3600' } }]);
+    await get();
+    await clock.advance(2000);
+
+    const circuitBreaker = new CircuitBreaker({ failureThreshold: 1, clock });
+    circuitBreaker.recordFailure(circuitBreaker.keyFor(URL));
+    const whileOpen = await get({}, { circuitBreaker });
+    assert.equal(whileOpen.fromCache, true);
+    assert.equal(whileOpen.attempts, 0);
+    assert.deepEqual(whileOpen.data, { v: 1 });
+
+    const scheduler = new RequestScheduler({ maxConcurrent: 0, queueTimeout: 100, clock });
+    const whileQueued = await get({}, { scheduler });
+    assert.equal(whileQueued.fromCache, true);
+    assert.equal(whileQueued.duration, 100);
+
+    assert.equal(fetch.calls.length, 1);
+  }],
+
+  ['keys entries on request headers and result-shaping config', async () => {
+    const { fetch, get } = setup([{ body: { v: 1 }, headers: { 'Cache-Control': 'max-age=60' } }]);
+    await get();
+
+    const text = await get({}, { responseType: 'text' });
+    assert.equal(text.fromCache, false);
+    assert.equal(text.data, '{"v":1}');
+
+    const onlyStrings = (data: unknown): string => {
+      if (typeof data !== 'string') {
+        throw new TypeError('expected a string');
+      }
+      return data;
+    };
+    const invalid = await get({}, { validate: onlyStrings }).catch(e => e);
+    assert.ok(invalid instanceof MaxRetriesError && invalid.lastError instanceof ValidationError);
+
+    const otherUser = await get({ headers: { Authorization: 'Bearer other' } });
+    assert.equal(otherUser.fromCache, false);
+
+    assert.equal((await get()).fromCache, true);
+    assert.equal(fetch.calls.length, 4);
+  }],
+
+  ['uses defaultMaxAge for responses without freshness headers', async () => {
+    const { clock, fetch, get } = setup([{ body: {} }], { defaultMaxAge: 1000 });
+    await get();
+    await clock.advance(999);
+    await get();
+    assert.equal(fetch.calls.length, 1);
+  }],
+
+  ['evicts the least recently used entry from the memory store', () => {
+    const store = new MemoryCacheStore(2);
+    const entry = (data: string): CacheEntry => ({ data, storedAt: 0, maxAge: 0, staleWhileRevalidate: 0, staleIfError: 0 });
+    store.set('a', entry('a'));
+    store.set('b', entry('b'));
+    store.get('a');
+    store.set('c', entry('c'));
+
+    assert.equal(store.size, 2);
+    assert.equal(store.get('b'), undefined);
+    assert.equal(store.get('a')?.data, 'a');
+  }]
+]);
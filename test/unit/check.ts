@@ -0,0 +1,46 @@
+/**
+ * Minimal check runner shared by the unit tests. Each test file registers
+ * its checks with `runChecks`; suites run one after another, so a file can
+ * be run on its own or imported by run.ts with the others.
+ */
+
+export type Check = [string, () => Promise<void> | void];
+
+let queue: Promise<void> = Promise.resolve();
+let passed = 0;
+let failed = 0;
+let running: string | undefined;
+
+// The event loop emptied while a check was still waiting, e.g. on a virtual
+// timer nobody advanced; it can never finish, so count it as failed
+process.on('beforeExit', () => {
+  if (running !== undefined) {
+    failed++;
+    process.exitCode = 1;
+    console.log(`❌ ${running}\n   never settled`);
+    running = undefined;
+  }
+  if (passed + failed > 0) {
+    console.log(`\n${passed}/${passed + failed} unit checks passed`);
+    passed = failed = 0;
+  }
+});
+
+export function runChecks(suite: string, checks: Check[]): void {
+  queue = queue.then(async () => {
+    console.log(`\n${suite}`);
+    for (const [name, check] of checks) {
+      running = name;
+      try {
+        await check();
+        passed++;
+        console.log(`✅ ${name}`);
+      } catch (error) {
+        failed++;
+        process.exitCode = 1;
+        console.log(`❌ ${name}\n   ${(error as Error).stack ?? error}`);
+      }
+      running = undefined;
+    }
+  });
+}
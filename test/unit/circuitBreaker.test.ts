@@ -0,0 +1,132 @@
+import assert from 'node:assert/strict';
+import {
+  fetchWithRetry,
+  createMockFetch,
+  silentLogger,
+  VirtualClock,
+  CircuitBreaker,
+  CircuitOpenError,
+  MaxRetriesError
+} from '../../src/index';
+import { runChecks } from './check';
+
+const KEY = 'https://api.test';
+
+/**
+ * Records the given number of failures against KEY
+ */
+const fail = (breaker: CircuitBreaker, times: number) => {
+  for (let i = 0; i < times; i++) {
+    breaker.recordFailure(KEY);
+  }
+};
+
+runChecks('circuit breaker', [
+  ['opens after failureThreshold failures in a row', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 3, clock: new VirtualClock() });
+    fail(breaker, 2);
+    breaker.recordSuccess(KEY);
+    fail(breaker, 2);
+    assert.equal(breaker.getState(KEY), 'closed');
+    fail(breaker, 1);
+    assert.equal(breaker.getState(KEY), 'open');
+    assert.equal(breaker.tryAcquire(KEY), false);
+  }],
+
+  ['lets limited trials through after the cooldown, closing when they succeed', async () => {
+    const clock = new VirtualClock();
+    const breaker = new CircuitBreaker({ failureThreshold: 1, cooldown: 1000, halfOpenMaxTrials: 2, clock });
+    fail(breaker, 1);
+    assert.equal(breaker.retryAt(KEY), 1000);
+
+    await clock.advance(999);
+    assert.equal(breaker.getState(KEY), 'open');
+    await clock.advance(1);
+    assert.equal(breaker.getState(KEY), 'half-open');
+
+    assert.equal(breaker.tryAcquire(KEY), true);
+    assert.equal(breaker.tryAcquire(KEY), true);
+    assert.equal(breaker.tryAcquire(KEY), false);
+    breaker.recordSuccess(KEY);
+    assert.equal(breaker.getState(KEY), 'half-open');
+    breaker.recordSuccess(KEY);
+    assert.equal(breaker.getState(KEY), 'closed');
+  }],
+
+  ['reopens when a trial fails, and frees the slot of a released trial', async () => {
+    const clock = new VirtualClock();
+    const breaker = new CircuitBreaker({ failureThreshold: 1, cooldown: 1000, clock });
+    fail(breaker, 1);
+    await clock.advance(1000);
+
+    assert.equal(breaker.tryAcquire(KEY), true);
+    breaker.release(KEY);
+    assert.equal(breaker.tryAcquire(KEY), true);
+    breaker.recordFailure(KEY);
+
+    assert.equal(breaker.getState(KEY), 'open');
+    assert.equal(breaker.snapshot(KEY).openedAt, 1000);
+  }],
+
+  ['opens on the failure rate once minimumRequests outcomes are in', () => {
+    const breaker = new CircuitBreaker({ failureRateThreshold: 0.5, minimumRequests: 4, windowSize: 4, clock: new VirtualClock() });
+    breaker.recordSuccess(KEY);
+    fail(breaker, 2);
+    assert.equal(breaker.getState(KEY), 'closed');
+    breaker.recordSuccess(KEY);
+    breaker.recordSuccess(KEY);
+    // Window is now [fail, fail, ok, ok]
+    assert.equal(breaker.snapshot(KEY).failureRate, 0.5);
+    assert.equal(breaker.getState(KEY), 'closed');
+    fail(breaker, 1);
+    assert.equal(breaker.getState(KEY), 'open');
+  }],
+
+  ['keeps one circuit per origin by default', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1 });
+    breaker.recordFailure(breaker.keyFor('https://a.test/x?y=1'));
+    assert.equal(breaker.getState(breaker.keyFor('https://a.test/other')), 'open');
+    assert.equal(breaker.getState(breaker.keyFor('https://b.test/x')), 'closed');
+    breaker.reset();
+    assert.deepEqual(breaker.snapshot(), []);
+  }],
+
+  ['fails fast with CircuitOpenError while open', async () => {
+    const clock = new VirtualClock();
+    const fetch = createMockFetch({ clock, routes: [{ match: 'https://api.test/*', outcomes: [{ body: {} }] }] });
+    const circuitBreaker = new CircuitBreaker({ failureThreshold: 1, cooldown: 5000, clock });
+    fail(circuitBreaker, 1);
+
+    const error = await fetchWithRetry('https://api.test/a', {}, { fetch, clock, logger: silentLogger, circuitBreaker }).catch(e => e);
+
+    assert.ok(error instanceof CircuitOpenError);
+    assert.equal(error.key, KEY);
+    assert.equal(error.retryAt, 5000);
+    assert.equal(fetch.calls.length, 0);
+  }],
+
+  ['stops retrying once the call opens the circuit', async () => {
+    const clock = new VirtualClock();
+    const fetch = createMockFetch({ clock, routes: [{ match: 'https://api.test/*', outcomes: [{ status: 503 }] }] });
+    const circuitBreaker = new CircuitBreaker({ failureThreshold: 2, clock });
+
+    const pending = fetchWithRetry('https://api.test/a', {}, { fetch, clock, logger: silentLogger, circuitBreaker, maxRetries: 5 }).catch(e => e);
+    await clock.runAll();
+    const error = await pending;
+
+    assert.ok(error instanceof MaxRetriesError);
+    assert.equal(error.stopReason, 'non-retryable');
+    assert.equal(fetch.calls.length, 2);
+    assert.equal(circuitBreaker.getState(KEY), 'open');
+  }],
+
+  ['counts client errors as proof the host is up', async () => {
+    const fetch = createMockFetch({ routes: [{ match: 'https://api.test/*', outcomes: [{ status: 404 }] }] });
+    const circuitBreaker = new CircuitBreaker({ failureThreshold: 1 });
+
+    await fetchWithRetry('https://api.test/a', {}, { fetch, logger: silentLogger, circuitBreaker }).catch(() => undefined);
+
+    assert.equal(circuitBreaker.getState(KEY), 'closed');
+    assert.equal(circuitBreaker.snapshot(KEY).consecutiveFailures, 0);
+  }]
+]);
@@ -0,0 +1,65 @@
+import assert from 'node:assert/strict';
+import { VirtualClock, AbortError } from '../../src/index';
+import { runChecks } from './check';
+
+runChecks('VirtualClock', [
+  ['fires timers in due order as time advances', async () => {
+    const clock = new VirtualClock(1000);
+    const fired: string[] = [];
+    clock.setTimeout(() => fired.push('b'), 200);
+    clock.setTimeout(() => fired.push('a'), 100);
+    const cancelled = clock.setTimeout(() => fired.push('never'), 150);
+    clock.clearTimeout(cancelled);
+
+    await clock.advance(150);
+    assert.deepEqual(fired, ['a']);
+    assert.equal(clock.now(), 1150);
+    assert.equal(clock.pending, 1);
+
+    await clock.advance(50);
+    assert.deepEqual(fired, ['a', 'b']);
+    assert.equal(clock.pending, 0);
+  }],
+
+  ['fires timers scheduled by earlier timers in the same advance', async () => {
+    const clock = new VirtualClock();
+    const fired: number[] = [];
+    clock.setTimeout(() => {
+      fired.push(clock.now());
+      clock.setTimeout(() => fired.push(clock.now()), 10);
+    }, 10);
+
+    await clock.advance(25);
+    assert.deepEqual(fired, [10, 20]);
+  }],
+
+  ['resolves sleeps after async work between them', async () => {
+    const clock = new VirtualClock();
+    const task = async () => {
+      await clock.sleep(300);
+      await Promise.resolve();
+      await clock.sleep(700);
+      return clock.now();
+    };
+
+    const pending = task();
+    await clock.runAll();
+    assert.equal(await pending, 1000);
+  }],
+
+  ['rejects a sleep when its signal aborts', async () => {
+    const clock = new VirtualClock();
+    const controller = new AbortController();
+    const pending = clock.sleep(1000, controller.signal).catch(e => e);
+    controller.abort();
+    assert.ok((await pending) instanceof AbortError);
+    assert.equal(clock.pending, 0);
+  }],
+
+  ['stops runAll on timers that reschedule forever', async () => {
+    const clock = new VirtualClock();
+    const tick = () => clock.setTimeout(tick, 1);
+    tick();
+    await assert.rejects(clock.runAll(10), /fired 10 timers/);
+  }]
+]);
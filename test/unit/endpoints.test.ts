@@ -0,0 +1,157 @@
+import assert from 'node:assert/strict';
+import {
+  createFetcher,
+  createMockFetch,
+  silentLogger,
+  VirtualClock,
+  EndpointPool,
+  MaxRetriesError,
+  ResponseParseError,
+  MockRoute,
+  MockOutcome,
+  CircuitBreaker,
+  EndpointPoolOptions,
+  RetryConfig
+} from '../../src/index';
+import { runChecks } from './check';
+
+const EU = 'https://eu.api.test';
+const US = 'https://us.api.test';
+
+/**
+ * A fetcher spreading calls over a pool of the EU and US endpoints, on a virtual clock
+ */
+const setup = (routes: MockRoute[], poolOptions: Partial<EndpointPoolOptions> = {}, config: Partial<RetryConfig> = {}) => {
+  const clock = new VirtualClock();
+  const fetch = createMockFetch({ clock, routes });
+  const pool = new EndpointPool([EU, US], { clock, ...poolOptions });
+  const api = createFetcher({ fetch, clock, endpoints: pool, logger: silentLogger, baseDelay: 10, ...config });
+  const get = async (path: string = '/data') => {
+    const pending = api(path);
+    pending.catch(() => undefined);
+    await clock.runAll();
+    return pending;
+  };
+  return { clock, fetch, pool, api, get };
+};
+
+/**
+ * Routes answering every request to both endpoints, the EU one after `euDelay` ms and the US one after `usDelay` ms
+ */
+const bothUp = (euDelay = 0, usDelay = 0): MockRoute[] => [
+  { match: `${EU}/*`, outcomes: [{ body: { region: 'eu' }, delay: euDelay }] },
+  { match: `${US}/*`, outcomes: [{ body: { region: 'us' }, delay: usDelay }] }
+];
+
+/**
+ * Routes where the EU endpoint answers with the given outcomes and the US one is always up
+ */
+const euFailing = (euOutcomes: MockOutcome[] = [{ status: 503 }]): MockRoute[] => [
+  { match: `${EU}/*`, outcomes: euOutcomes },
+  { match: `${US}/*`, outcomes: [{ body: { region: 'us' } }] }
+];
+
+runChecks('endpoints', [
+  ['keeps an endpoint that answered with a malformed body in rotation', async () => {
+    const { fetch, pool, get } = setup([{ match: `${EU}/*`, outcomes: [{ body: '{"truncated' }] }]);
+
+    const error = await get('/data').catch(e => e);
+
+    assert.ok(error instanceof MaxRetriesError);
+    assert.ok(error.lastError instanceof ResponseParseError);
+    assert.deepEqual(pool.snapshot().map(endpoint => [endpoint.url, endpoint.healthy, endpoint.consecutiveFailures]), [
+      [EU, true, 0],
+      [US, true, 0]
+    ]);
+    assert.equal(fetch.calls.length, 1);
+  }],
+
+  ['takes each endpoint in turn with round-robin', async () => {
+    const { get } = setup(bothUp(), { policy: 'round-robin' });
+    const endpoints: Array<string | undefined> = [];
+    for (let i = 0; i < 4; i++) {
+      endpoints.push((await get()).endpoint);
+    }
+    assert.deepEqual(endpoints, [EU, US, EU, US]);
+  }],
+
+  ['prefers the endpoint with the lowest latency once each is measured', async () => {
+    const { pool, get } = setup(bothUp(200, 50), { policy: 'lowest-latency' });
+    const endpoints: Array<string | undefined> = [];
+    for (let i = 0; i < 4; i++) {
+      endpoints.push((await get()).endpoint);
+    }
+    // Unmeasured endpoints go first, so both are tried before the faster one wins
+    assert.deepEqual(endpoints, [EU, US, US, US]);
+    assert.deepEqual(pool.snapshot().map(endpoint => endpoint.latency), [200, 50]);
+  }],
+
+  ['ejects an endpoint only after failureThreshold failures in a row', async () => {
+    const { fetch, pool, get } = setup(euFailing(), { failureThreshold: 2 });
+
+    const first = await get();
+    assert.equal(first.endpoint, US);
+    assert.equal(pool.snapshot()[0].healthy, true);
+
+    // The second call starts at 10ms, after the first one's backoff
+    await get();
+    assert.deepEqual(pool.snapshot()[0], { url: EU, healthy: false, consecutiveFailures: 2, ejectedUntil: 30010 });
+
+    const third = await get();
+    assert.equal(third.attempts, 1);
+    assert.equal(fetch.callsTo(/eu\.api/).length, 2);
+  }],
+
+  ['tries an ejected endpoint again once ejectFor has passed', async () => {
+    const { clock, get } = setup(euFailing([{ status: 503 }, { body: { region: 'eu' } }]), { ejectFor: 1000 });
+
+    assert.equal((await get()).endpoint, US);
+    assert.equal((await get()).endpoint, US);
+
+    await clock.advance(1000);
+    const recovered = await get();
+    assert.equal(recovered.endpoint, EU);
+    assert.equal(recovered.attempts, 1);
+  }],
+
+  ['falls back to the endpoint that returns soonest when all are ejected', async () => {
+    const clock = new VirtualClock();
+    const pool = new EndpointPool([EU, US], { clock, ejectFor: 1000 });
+    pool.recordFailure(US);
+    await clock.advance(100);
+    pool.recordFailure(EU);
+
+    assert.deepEqual(pool.snapshot().map(endpoint => endpoint.healthy), [false, false]);
+    assert.equal(pool.select(), US);
+    assert.equal(pool.select(new Set([US])), US);
+  }],
+
+  ['skips endpoints whose circuit is open', async () => {
+    const clock = new VirtualClock();
+    const circuitBreaker = new CircuitBreaker({ failureThreshold: 1, clock });
+    circuitBreaker.recordFailure(circuitBreaker.keyFor(`${EU}/data`));
+    const fetch = createMockFetch({ clock, routes: bothUp() });
+    const api = createFetcher({ fetch, clock, circuitBreaker, endpoints: [EU, US], logger: silentLogger });
+
+    const pending = api('/data');
+    await clock.runAll();
+    const result = await pending;
+
+    assert.equal(result.endpoint, US);
+    assert.equal(fetch.callsTo(/eu\.api/).length, 0);
+  }],
+
+  ['shares health between fetchers using the same pool', async () => {
+    const { clock, fetch, pool, get } = setup(euFailing());
+    const other = createFetcher({ fetch, clock, endpoints: pool, logger: silentLogger });
+
+    await get();
+    const pending = other('/other');
+    await clock.runAll();
+    const result = await pending;
+
+    assert.equal(result.endpoint, US);
+    assert.equal(result.attempts, 1);
+    assert.equal(fetch.callsTo(`${EU}/other`).length, 0);
+  }]
+]);
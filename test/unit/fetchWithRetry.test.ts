@@ -0,0 +1,130 @@
+import assert from 'node:assert/strict';
+import {
+  fetchWithRetry,
+  createFetcher,
+  createMockFetch,
+  silentLogger,
+  VirtualClock,
+  MaxRetriesError,
+  HttpError,
+  ConnectionError,
+  TimeoutError
+} from '../../src/index';
+import { runChecks } from './check';
+
+runChecks('fetchWithRetry', [
+  ['retries scripted failures and returns the first success', async () => {
+    const clock = new VirtualClock();
+    const fetch = createMockFetch({
+      clock,
+      routes: [{ match: 'https://api.test/users', outcomes: [{ status: 503 }, { status: 500 }, { body: [{ id: 1 }] }] }]
+    });
+
+    const pending = fetchWithRetry('https://api.test/users', {}, { fetch, clock, logger: silentLogger, baseDelay: 100 });
+    await clock.runAll();
+    const result = await pending;
+
+    assert.deepEqual(result.data, [{ id: 1 }]);
+    assert.equal(result.attempts, 3);
+    assert.equal(result.succeededOnRetry, true);
+    assert.equal(result.duration, 200);
+    assert.deepEqual(fetch.calls.map(call => call.timestamp), [0, 100, 200]);
+  }],
+
+  ['does not retry a status outside retryStatusCodes', async () => {
+    const fetch = createMockFetch({ routes: [{ match: 'https://api.test/missing', outcomes: [{ status: 404 }] }] });
+
+    const error = await fetchWithRetry('https://api.test/missing', {}, { fetch, logger: silentLogger }).catch(e => e);
+
+    assert.equal(fetch.calls.length, 1);
+    assert.ok(error instanceof MaxRetriesError);
+    assert.equal(error.stopReason, 'non-retryable');
+    assert.ok(error.lastError instanceof HttpError);
+    assert.equal(error.lastError.status, 404);
+  }],
+
+  ['retries network errors and classifies them', async () => {
+    const clock = new VirtualClock();
+    const fetch = createMockFetch({
+      clock,
+      routes: [{ match: 'https://api.test/a', outcomes: [{ networkError: 'ECONNREFUSED' }, { body: 'up' }] }]
+    });
+
+    const pending = fetchWithRetry('https://api.test/a', {}, { fetch, clock, logger: silentLogger, responseType: 'text' });
+    await clock.runAll();
+    const result = await pending;
+
+    assert.equal(result.data, 'up');
+    assert.equal(result.attempts, 2);
+  }],
+
+  ['gives up after maxRetries with the history of every attempt', async () => {
+    const clock = new VirtualClock();
+    const fetch = createMockFetch({
+      clock,
+      routes: [{ match: 'https://api.test/down', outcomes: [{ status: 502 }, { networkError: 'ECONNRESET' }, { status: 503 }] }]
+    });
+
+    const pending = fetchWithRetry('https://api.test/down', {}, { fetch, clock, logger: silentLogger, maxRetries: 2, baseDelay: 50 })
+      .catch(e => e);
+    await clock.runAll();
+    const error = await pending;
+
+    assert.ok(error instanceof MaxRetriesError);
+    assert.equal(error.attempts, 3);
+    assert.equal(error.stopReason, 'exhausted');
+    assert.deepEqual(error.history.map(record => record.status), [502, undefined, 503]);
+    assert.ok(error.history[1].error instanceof ConnectionError);
+    assert.deepEqual(error.history.map(record => record.startedAt), [0, 50, 100]);
+    assert.equal(fetch.calls.length, 3);
+  }],
+
+  ['times out a hanging attempt and retries it', async () => {
+    const clock = new VirtualClock();
+    const fetch = createMockFetch({
+      clock,
+      routes: [{ match: 'https://api.test/slow', outcomes: [{ hang: true }, { body: { ok: true } }] }]
+    });
+
+    const pending = fetchWithRetry('https://api.test/slow', {}, { fetch, clock, logger: silentLogger, timeout: 1000, baseDelay: 100 });
+    await clock.runAll();
+    const result = await pending;
+
+    assert.equal(result.attempts, 2);
+    assert.equal(result.duration, 1100);
+  }],
+
+  ['gives up on a request that always hangs with TimeoutError', async () => {
+    const clock = new VirtualClock();
+    const fetch = createMockFetch({ clock, routes: [{ match: 'https://api.test/slow', outcomes: [{ hang: true }] }] });
+
+    const pending = fetchWithRetry('https://api.test/slow', {}, { fetch, clock, logger: silentLogger, timeout: 500, maxRetries: 1 })
+      .catch(e => e);
+    await clock.runAll();
+    const error = await pending;
+
+    assert.ok(error instanceof MaxRetriesError);
+    assert.ok(error.lastError instanceof TimeoutError);
+    assert.equal(fetch.calls.length, 2);
+  }],
+
+  ['sends the caller\'s method, headers and body on every attempt', async () => {
+    const clock = new VirtualClock();
+    const fetch = createMockFetch({
+      clock,
+      routes: [{ match: 'https://api.test/items', method: 'PUT', outcomes: [{ status: 503 }, { status: 204 }] }]
+    });
+    const api = createFetcher({ fetch, clock, logger: silentLogger, responseType: 'text' });
+
+    const pending = api('https://api.test/items', { method: 'PUT', headers: { 'Content-Type': 'application/json' }, body: '{"a":1}' });
+    await clock.runAll();
+    await pending;
+
+    assert.equal(fetch.calls.length, 2);
+    for (const call of fetch.calls) {
+      assert.equal(call.method, 'PUT');
+      assert.equal(call.headers.get('content-type'), 'application/json');
+      assert.equal(call.body, '{"a":1}');
+    }
+  }]
+]);
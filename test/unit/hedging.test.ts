@@ -0,0 +1,76 @@
+import assert from 'node:assert/strict';
+import { fetchWithRetry, createMockFetch, silentLogger, VirtualClock, LatencyTracker, MockOutcome, HedgeOptions } from '../../src/index';
+import { resolveHedgeDelay } from '../../src/hedging';
+import { runChecks } from './check';
+
+/**
+ * Runs one hedged GET against the scripted copies
+ */
+const hedged = async (outcomes: MockOutcome[], hedge: HedgeOptions, init: RequestInit = {}) => {
+  const clock = new VirtualClock();
+  const fetch = createMockFetch({ clock, routes: [{ match: 'https://api.test/a', outcomes }] });
+  const pending = fetchWithRetry('https://api.test/a', init, { fetch, clock, logger: silentLogger, responseType: 'text', hedge });
+  await clock.runAll();
+  return { result: await pending, fetch, clock };
+};
+
+runChecks('hedging', [
+  ['sends a second copy after the hedge delay and takes the first good answer', async () => {
+    const { result, fetch, clock } = await hedged([{ body: 'slow', delay: 1000 }, { body: 'fast', delay: 50 }], { delay: 100 });
+
+    assert.equal(result.data, 'fast');
+    assert.equal(result.hedges, 1);
+    assert.equal(result.winningHedge, 1);
+    assert.equal(result.duration, 150);
+    assert.deepEqual(fetch.calls.map(call => call.timestamp), [0, 100]);
+    // The losing copy was aborted rather than left to finish
+    assert.equal(clock.now(), 150);
+  }],
+
+  ['sends no hedge when the first copy answers in time', async () => {
+    const { result, fetch } = await hedged([{ body: 'quick', delay: 80 }], { delay: 100 });
+
+    assert.equal(result.hedges, 0);
+    assert.equal(result.winningHedge, 0);
+    assert.equal(fetch.calls.length, 1);
+  }],
+
+  ['keeps up to maxAttempts copies in flight', async () => {
+    const { result, fetch } = await hedged(
+      [{ body: 'a', delay: 1000 }, { body: 'b', delay: 1000 }, { body: 'c', delay: 500 }, { body: 'd' }],
+      { delay: 100, maxAttempts: 3 }
+    );
+
+    assert.equal(result.data, 'c');
+    assert.equal(result.hedges, 2);
+    assert.equal(result.winningHedge, 2);
+    assert.deepEqual(fetch.calls.map(call => call.timestamp), [0, 100, 200]);
+  }],
+
+  ['waits for a slower copy when a faster one fails', async () => {
+    const { result } = await hedged([{ body: 'slow', delay: 300 }, { status: 503 }], { delay: 100 });
+
+    assert.equal(result.data, 'slow');
+    assert.equal(result.winningHedge, 0);
+    assert.equal(result.attempts, 1);
+  }],
+
+  ['never hedges requests that are not safe to repeat', async () => {
+    const { fetch } = await hedged([{ body: 'done', delay: 1000 }], { delay: 100 }, { method: 'POST' });
+    assert.equal(fetch.calls.length, 1);
+  }],
+
+  ['uses a latency percentile once there are enough samples', () => {
+    const latencyTracker = new LatencyTracker(10);
+    const hedge: HedgeOptions = { delay: { percentile: 90, fallback: 250, minSamples: 5 }, latencyTracker };
+    for (const latency of [10, 20, 30, 40]) {
+      latencyTracker.record('https://api.test/x', latency);
+    }
+    assert.equal(resolveHedgeDelay('https://api.test/y', hedge), 250);
+
+    latencyTracker.record('https://api.test/x', 500);
+    assert.equal(resolveHedgeDelay('https://api.test/y', hedge), 500);
+    assert.equal(latencyTracker.percentile('https://api.test/', 50, 1), 30);
+    assert.equal(resolveHedgeDelay('https://other.test/', hedge), 250);
+  }]
+]);
@@ -0,0 +1,81 @@
+import assert from 'node:assert/strict';
+import { fetchWithRetry, createFetcher, createMockFetch, silentLogger, VirtualClock, MaxRetriesError, RetryConfig } from '../../src/index';
+import { runChecks } from './check';
+
+/**
+ * Sends a request that fails with 502 once, then succeeds; returns the
+ * recorded calls and how the call ended
+ */
+const send = async (init: RequestInit, config: Partial<RetryConfig> = {}) => {
+  const clock = new VirtualClock();
+  const fetch = createMockFetch({ clock, routes: [{ match: 'https://api.test/charges', outcomes: [{ status: 502 }, { status: 201, body: { id: 'ch_1' } }] }] });
+  const pending = fetchWithRetry('https://api.test/charges', init, { fetch, clock, logger: silentLogger, ...config })
+    .catch((error: unknown) => error);
+  await clock.runAll();
+  return { outcome: await pending, calls: fetch.calls };
+};
+
+runChecks('idempotency', [
+  ['retries safe and idempotent methods by default', async () => {
+    for (const method of ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE']) {
+      const { calls } = await send({ method });
+      assert.equal(calls.length, 2, method);
+    }
+  }],
+
+  ['does not retry POST or PATCH without a key', async () => {
+    for (const method of ['POST', 'patch']) {
+      const { outcome, calls } = await send({ method, body: '{}' });
+      assert.ok(outcome instanceof MaxRetriesError);
+      assert.equal(outcome.stopReason, 'non-retryable');
+      assert.equal(calls.length, 1, method);
+      assert.equal(calls[0].headers.get('idempotency-key'), null);
+    }
+  }],
+
+  ['reuses one generated key across every attempt of a call', async () => {
+    const { calls } = await send({ method: 'POST', body: '{}' }, { idempotencyKey: true });
+    const keys = calls.map(call => call.headers.get('idempotency-key'));
+
+    assert.equal(calls.length, 2);
+    assert.match(keys[0] ?? '', /^[0-9a-f-]{36}$/);
+    assert.equal(keys[1], keys[0]);
+
+    const again = await send({ method: 'POST', body: '{}' }, { idempotencyKey: true });
+    assert.notEqual(again.calls[0].headers.get('idempotency-key'), keys[0]);
+  }],
+
+  ['uses a fixed or generated key under the configured header', async () => {
+    const fixed = await send({ method: 'POST' }, { idempotencyKey: 'order-42', idempotencyKeyHeader: 'X-Request-Id' });
+    assert.deepEqual(fixed.calls.map(call => call.headers.get('x-request-id')), ['order-42', 'order-42']);
+
+    let generated = 0;
+    const fromFunction = await send({ method: 'PATCH' }, { idempotencyKey: () => `key-${++generated}` });
+    assert.deepEqual(fromFunction.calls.map(call => call.headers.get('idempotency-key')), ['key-1', 'key-1']);
+  }],
+
+  ['keeps a key the caller set and retries on it', async () => {
+    const { calls } = await send({ method: 'POST', headers: { 'Idempotency-Key': 'mine' } }, { idempotencyKey: true });
+    assert.deepEqual(calls.map(call => call.headers.get('idempotency-key')), ['mine', 'mine']);
+
+    const withoutOptIn = await send({ method: 'POST', headers: { 'Idempotency-Key': 'mine' } });
+    assert.equal(withoutOptIn.calls.length, 2);
+  }],
+
+  ['never adds a key to safe methods', async () => {
+    const { calls } = await send({ method: 'GET' }, { idempotencyKey: true });
+    assert.equal(calls[0].headers.get('idempotency-key'), null);
+  }],
+
+  ['lets retryMethods opt a method in, and a fetcher generate a key per call', async () => {
+    const { calls } = await send({ method: 'POST' }, { retryMethods: ['GET', 'POST'] });
+    assert.equal(calls.length, 2);
+
+    const fetch = createMockFetch({ routes: [{ match: 'https://api.test/charges', outcomes: [{ status: 201 }] }] });
+    const api = createFetcher({ fetch, logger: silentLogger, idempotencyKey: true, responseType: 'text' });
+    await api('https://api.test/charges', { method: 'POST' });
+    await api('https://api.test/charges', { method: 'POST' });
+    const [first, second] = fetch.calls.map(call => call.headers.get('idempotency-key'));
+    assert.ok(first && second && first !== second);
+  }]
+]);
@@ -0,0 +1,194 @@
+import assert from 'node:assert/strict';
+import {
+  createFetcher,
+  createMockFetch,
+  silentLogger,
+  VirtualClock,
+  MetricsCollector,
+  createTracingInstrumentation,
+  Instrumentation,
+  SpanLike,
+  SpanAttributeValue,
+  TracerLike
+} from '../../src/index';
+import { runChecks } from './check';
+
+/**
+ * Fetcher on a virtual clock: /ok fails with 503, then a reset connection,
+ * then succeeds; /down always answers 503
+ */
+const setup = (instrumentation: Instrumentation | Instrumentation[]) => {
+  const clock = new VirtualClock();
+  const fetch = createMockFetch({
+    clock,
+    routes: [
+      { match: 'https://api.test/ok', outcomes: [{ status: 503, delay: 20 }, { networkError: 'ECONNRESET', delay: 10 }, { body: {}, delay: 30 }] },
+      { match: 'https://api.test/down', outcomes: [{ status: 503 }] }
+    ]
+  });
+  const api = createFetcher({ fetch, clock, instrumentation, logger: silentLogger, baseDelay: 500, maxRetries: 2 });
+  const call = async (url: string) => {
+    const pending = api(url);
+    // Settles while the clock runs; awaited by the caller
+    pending.catch(() => undefined);
+    await clock.runAll();
+    return pending;
+  };
+  return { call };
+};
+
+/**
+ * Span that records what was done to it
+ */
+class RecordingSpan implements SpanLike {
+  attributes: Record<string, SpanAttributeValue> = {};
+  events: { name: string; attributes?: Record<string, SpanAttributeValue> }[] = [];
+  status?: { code: number; message?: string };
+  exceptions: Error[] = [];
+  ended = false;
+
+  constructor(readonly name: string, readonly parent: unknown, attributes: Record<string, SpanAttributeValue> = {}) {
+    Object.assign(this.attributes, attributes);
+  }
+
+  setAttribute(key: string, value: SpanAttributeValue) {
+    this.attributes[key] = value;
+  }
+
+  addEvent(name: string, attributes?: Record<string, SpanAttributeValue>) {
+    this.events.push({ name, ...(attributes ? { attributes } : {}) });
+  }
+
+  setStatus(status: { code: number; message?: string }) {
+    this.status = status;
+  }
+
+  recordException(exception: Error) {
+    this.exceptions.push(exception);
+  }
+
+  end() {
+    this.ended = true;
+  }
+}
+
+/**
+ * Tracer that keeps every span it starts
+ */
+const recordingTracer = () => {
+  const spans: RecordingSpan[] = [];
+  const tracer: TracerLike = {
+    startSpan: (name, options, context) => {
+      const span = new RecordingSpan(name, context, options?.attributes);
+      spans.push(span);
+      return span;
+    }
+  };
+  return { tracer, spans };
+};
+
+runChecks('metrics and tracing', [
+  ['counts calls, attempts, retries, backoff and give-ups per origin', async () => {
+    const metrics = new MetricsCollector({ buckets: [0.05, 1] });
+    const { call } = setup(metrics);
+
+    await call('https://api.test/ok');
+    await call('https://api.test/down').catch(() => undefined);
+
+    assert.equal(metrics.retryCount('https://api.test', 'http_503'), 3);
+    assert.equal(metrics.retryCount('https://api.test', 'ConnectionError'), 1);
+
+    const text = metrics.metrics().split('\n');
+    const origin = 'origin="https://api.test"';
+    for (const line of [
+      '# TYPE fetch_retry_calls_total counter',
+      `fetch_retry_calls_total{${origin},outcome="success"} 1`,
+      `fetch_retry_calls_total{${origin},outcome="give-up"} 1`,
+      `fetch_retry_attempts_total{${origin},status="503"} 4`,
+      `fetch_retry_attempts_total{${origin},status="ConnectionError"} 1`,
+      `fetch_retry_attempts_total{${origin},status="200"} 1`,
+      `fetch_retry_give_ups_total{${origin},stop_reason="exhausted"} 1`,
+      `fetch_retry_backoff_seconds_total{${origin}} 2`,
+      `fetch_retry_call_attempts_bucket{${origin},le="3"} 2`,
+      '# TYPE fetch_retry_attempt_duration_seconds histogram',
+      `fetch_retry_attempt_duration_seconds_bucket{${origin},le="0.05"} 6`,
+      `fetch_retry_attempt_duration_seconds_count{${origin}} 6`,
+      `fetch_retry_call_duration_seconds_bucket{${origin},le="1"} 1`,
+      `fetch_retry_call_duration_seconds_bucket{${origin},le="+Inf"} 2`,
+      `fetch_retry_call_duration_seconds_sum{${origin}} 2.06`
+    ]) {
+      assert.ok(text.includes(line), `missing: ${line}`);
+    }
+  }],
+
+  ['uses the configured metric prefix', async () => {
+    const metrics = new MetricsCollector({ prefix: 'api_client' });
+    const { call } = setup(metrics);
+    await call('https://api.test/ok');
+    assert.match(metrics.metrics(), /^api_client_calls_total\{origin="https:\/\/api.test",outcome="success"\} 1$/m);
+    assert.doesNotMatch(metrics.metrics(), /fetch_retry_/);
+  }],
+
+  ['records one span per call with attempts and retries as events', async () => {
+    const { tracer, spans } = recordingTracer();
+    const { call } = setup(createTracingInstrumentation(tracer));
+
+    await call('https://api.test/ok');
+
+    assert.equal(spans.length, 1);
+    const [span] = spans;
+    assert.equal(span.name, 'HTTP GET');
+    assert.equal(span.attributes['url.full'], 'https://api.test/ok');
+    assert.equal(span.attributes['fetch_retry.attempts'], 3);
+    assert.equal(span.attributes['http.request.resend_count'], 2);
+    assert.equal(span.attributes['fetch_retry.backoff_ms'], 1000);
+    assert.deepEqual(span.events.map(event => event.name), ['attempt', 'retry', 'attempt', 'retry', 'attempt']);
+    assert.equal(span.events[0].attributes?.['http.response.status_code'], 503);
+    assert.equal(span.events[3].attributes?.reason, 'ConnectionError');
+    assert.deepEqual(span.status, { code: 1 });
+    assert.ok(span.ended);
+  }],
+
+  ['records child spans per attempt when given a context, and errors on give-up', async () => {
+    const { tracer, spans } = recordingTracer();
+    const contexts = new Map<SpanLike, object>();
+    const instrumentation = createTracingInstrumentation(tracer, {
+      spanName: ({ url }) => `GET ${new URL(url).pathname}`,
+      contextWithSpan: span => {
+        const context = { span };
+        contexts.set(span, context);
+        return context;
+      }
+    });
+    const { call } = setup(instrumentation);
+
+    await call('https://api.test/down').catch(() => undefined);
+
+    const [callSpan, ...attemptSpans] = spans;
+    assert.equal(callSpan.name, 'GET /down');
+    assert.equal(attemptSpans.length, 3);
+    for (const attemptSpan of attemptSpans) {
+      assert.equal(attemptSpan.parent, contexts.get(callSpan));
+      assert.equal(attemptSpan.attributes['http.response.status_code'], 503);
+      assert.equal(attemptSpan.status?.code, 2);
+      assert.ok(attemptSpan.ended);
+    }
+    assert.equal(attemptSpans[2].attributes['http.request.resend_count'], 2);
+    assert.equal(callSpan.attributes['fetch_retry.stop_reason'], 'exhausted');
+    assert.equal(callSpan.attributes['http.response.status_code'], 503);
+    assert.equal(callSpan.status?.code, 2);
+    assert.equal(callSpan.exceptions[0].name, 'MaxRetriesError');
+  }],
+
+  ['fans events out to several instrumentations', async () => {
+    const metrics = new MetricsCollector();
+    const { tracer, spans } = recordingTracer();
+    const { call } = setup([metrics, createTracingInstrumentation(tracer)]);
+
+    await call('https://api.test/ok');
+
+    assert.equal(metrics.retryCount('https://api.test', 'http_503'), 1);
+    assert.equal(spans.length, 1);
+    assert.ok(spans[0].ended);
+  }]
+]);
@@ -0,0 +1,112 @@
+import assert from 'node:assert/strict';
+import { fetchWithRetry, createMockFetch, MaxRetriesError, LogLevel } from '../../src/index';
+import { writeLog } from '../../src/logger';
+import { runChecks } from './check';
+
+/**
+ * Logger whose methods use `this`, like pino or winston instances
+ */
+class RecordingLogger {
+  readonly lines: string[] = [];
+
+  debug(...args: unknown[]): void {
+    this.lines.push(`debug ${args.join(' ')}`);
+  }
+
+  info(...args: unknown[]): void {
+    this.lines.push(`info ${args.join(' ')}`);
+  }
+
+  warn(...args: unknown[]): void {
+    this.lines.push(`warn ${args.join(' ')}`);
+  }
+
+  error(...args: unknown[]): void {
+    this.lines.push(`error ${args.join(' ')}`);
+  }
+}
+
+runChecks('logger', [
+  ['calls console-style loggers as methods', () => {
+    const logger = new RecordingLogger();
+    writeLog(logger, 'debug', 'a');
+    writeLog(logger, 'info', 'b');
+    writeLog(logger, 'warn', 'c');
+    writeLog(logger, 'error', 'd');
+    assert.deepEqual(logger.lines, ['debug a', 'info b', 'warn c', 'error d']);
+  }],
+
+  ['falls back to log() for missing debug and info', () => {
+    class LogOnly {
+      readonly lines: string[] = [];
+      log(...args: unknown[]): void {
+        this.lines.push(args.join(' '));
+      }
+      warn(): void {}
+      error(): void {}
+    }
+    const logger = new LogOnly();
+    writeLog(logger, 'debug', 'a');
+    writeLog(logger, 'info', 'b');
+    assert.deepEqual(logger.lines, ['a', 'b']);
+  }],
+
+  ['passes level and context to level-based loggers', () => {
+    const entries: Array<[LogLevel, string, unknown]> = [];
+    writeLog((level, message, context) => entries.push([level, message, context]), 'warn', 'w', { attempt: 1 });
+    assert.deepEqual(entries, [['warn', 'w', { attempt: 1 }]]);
+  }],
+
+  ['fetchWithRetry works with a class-based logger', async () => {
+    const logger = new RecordingLogger();
+    const fetch = createMockFetch({ routes: [{ match: 'https://api.test/data', outcomes: [{ status: 503 }, { body: { ok: true } }] }] });
+    const result = await fetchWithRetry('https://api.test/data', {}, { fetch, logger, baseDelay: 1 });
+    assert.deepEqual(result.data, { ok: true });
+    assert.equal(fetch.calls.length, 2);
+    assert.ok(logger.lines.some(line => line.startsWith('warn ⚠️ Attempt 1 failed')));
+    assert.ok(logger.lines.some(line => line.startsWith('info ✅')));
+  }],
+
+  ['runs the lifecycle hooks in order', async () => {
+    const logger = new RecordingLogger();
+    const fetch = createMockFetch({ routes: [{ match: 'https://api.test/data', outcomes: [{ status: 503 }, { body: { ok: true } }] }] });
+    const seen: string[] = [];
+
+    await fetchWithRetry('https://api.test/data', {}, {
+      fetch,
+      logger,
+      baseDelay: 1,
+      onAttempt: event => {
+        seen.push(`attempt ${event.attempt}`);
+      },
+      onRetry: event => {
+        seen.push(`retry ${event.attempt} in ${event.delay}ms`);
+      },
+      onSuccess: event => {
+        seen.push(`success ${event.result.attempts}`);
+      }
+    });
+
+    assert.deepEqual(seen, ['attempt 1', 'retry 1 in 1ms', 'attempt 2', 'success 2']);
+  }],
+
+  ['stops retrying when onRetry returns false, then calls onGiveUp', async () => {
+    const logger = new RecordingLogger();
+    const fetch = createMockFetch({ routes: [{ match: 'https://api.test/data', outcomes: [{ status: 503 }] }] });
+    const gaveUp: unknown[] = [];
+
+    const error = await fetchWithRetry('https://api.test/data', {}, {
+      fetch,
+      logger,
+      onRetry: () => false,
+      onGiveUp: event => {
+        gaveUp.push(event.error);
+      }
+    }).catch(e => e);
+
+    assert.ok(error instanceof MaxRetriesError);
+    assert.deepEqual(gaveUp, [error]);
+    assert.equal(fetch.calls.length, 1);
+    assert.ok(logger.lines.some(line => line.includes('Retry vetoed by onRetry hook')));
+  }]
+]);
@@ -0,0 +1,133 @@
+import assert from 'node:assert/strict';
+import {
+  createFetcher,
+  createMockFetch,
+  silentLogger,
+  VirtualClock,
+  compose,
+  CallMiddleware,
+  AttemptMiddleware,
+  RetryConfig
+} from '../../src/index';
+import { runChecks } from './check';
+
+/**
+ * A fetcher on a virtual clock whose call runs the clock to completion
+ */
+const setup = (config: Partial<RetryConfig>) => {
+  const clock = new VirtualClock();
+  const fetch = createMockFetch({
+    clock,
+    routes: [
+      { match: 'https://api.test/flaky', outcomes: [{ status: 503 }, { body: { data: { id: 1 } } }] },
+      { match: 'https://api.test/v2/*', outcomes: [{ body: { data: 'v2' } }] }
+    ]
+  });
+  const api = createFetcher({ fetch, clock, logger: silentLogger, baseDelay: 10, ...config });
+  const call = async (url: string, init: RequestInit = {}) => {
+    const pending = api(url, init);
+    // Settles while the clock runs; awaited by the caller
+    pending.catch(() => undefined);
+    await clock.runAll();
+    return pending;
+  };
+  return { fetch, call };
+};
+
+runChecks('middleware', [
+  ['runs middleware in order around next(), outermost first', async () => {
+    const trace: string[] = [];
+    const step = (name: string) => async (_ctx: unknown, next: () => Promise<void>) => {
+      trace.push(`${name} in`);
+      await next();
+      trace.push(`${name} out`);
+    };
+
+    await compose([step('a'), step('b')], async () => {
+      trace.push('terminal');
+    })({});
+
+    assert.deepEqual(trace, ['a in', 'b in', 'terminal', 'b out', 'a out']);
+    await assert.rejects(compose([async (_ctx, next) => {
+      await next();
+      await next();
+    }], async () => undefined)({}), /next\(\) called multiple times/);
+  }],
+
+  ['runs call middleware once per call and attempt middleware once per attempt', async () => {
+    let calls = 0;
+    const attempts: number[] = [];
+    const { call } = setup({
+      middleware: {
+        call: [async (_ctx, next) => {
+          calls++;
+          await next();
+        }],
+        attempt: [async (ctx, next) => {
+          attempts.push(ctx.attempt);
+          await next();
+        }]
+      }
+    });
+
+    await call('https://api.test/flaky');
+
+    assert.equal(calls, 1);
+    assert.deepEqual(attempts, [1, 2]);
+  }],
+
+  ['lets attempt middleware change each request and see each response', async () => {
+    const statuses: number[] = [];
+    const signing: AttemptMiddleware = async (ctx, next) => {
+      const headers = new Headers(ctx.request.headers);
+      headers.set('X-Signature', `sig-${ctx.attempt}`);
+      ctx.request = { ...ctx.request, headers };
+      await next();
+      statuses.push(ctx.response!.status);
+    };
+    const { fetch, call } = setup({ middleware: { attempt: [signing] } });
+
+    await call('https://api.test/flaky', { headers: { 'X-Correlation-Id': 'c1' } });
+
+    assert.deepEqual(fetch.calls.map(c => c.headers.get('x-signature')), ['sig-1', 'sig-2']);
+    assert.deepEqual(fetch.calls.map(c => c.headers.get('x-correlation-id')), ['c1', 'c1']);
+    assert.deepEqual(statuses, [503, 200]);
+  }],
+
+  ['lets call middleware rewrite the URL and unwrap the result', async () => {
+    const rewrite: CallMiddleware = async (ctx, next) => {
+      ctx.url = ctx.url.replace('/v1/', '/v2/');
+      await next();
+    };
+    const unwrap: CallMiddleware = async (ctx, next) => {
+      await next();
+      ctx.result = { ...ctx.result!, data: ctx.result!.data.data };
+    };
+    const { fetch, call } = setup({ middleware: { call: [unwrap, rewrite] } });
+
+    const result = await call('https://api.test/v1/items');
+
+    assert.equal(result.data, 'v2');
+    assert.equal(fetch.calls[0].url, 'https://api.test/v2/items');
+  }],
+
+  ['short-circuits without fetching', async () => {
+    const { fetch, call } = setup({
+      middleware: {
+        attempt: [ctx => {
+          ctx.response = new Response('{"stub":true}', { headers: { 'Content-Type': 'application/json' } });
+        }]
+      }
+    });
+
+    const result = await call('https://api.test/flaky');
+
+    assert.deepEqual(result.data, { stub: true });
+    assert.equal(fetch.calls.length, 0);
+  }],
+
+  ['fails clearly when middleware neither calls next() nor sets a result', async () => {
+    const { call } = setup({ middleware: { call: [() => undefined] } });
+    await assert.rejects(call('https://api.test/flaky'), /finished without a result/);
+  }]
+]);
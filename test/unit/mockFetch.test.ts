@@ -0,0 +1,96 @@
+import assert from 'node:assert/strict';
+import { createMockFetch, VirtualClock } from '../../src/index';
+import { runChecks } from './check';
+
+runChecks('createMockFetch', [
+  ['plays scripted outcomes in order and repeats the last', async () => {
+    const fetch = createMockFetch({ routes: [{ match: 'https://api.test/a', outcomes: [{ status: 503 }, { body: { n: 2 } }] }] });
+    const statuses = [];
+    for (let i = 0; i < 3; i++) {
+      statuses.push((await fetch('https://api.test/a')).status);
+    }
+    assert.deepEqual(statuses, [503, 200, 200]);
+    assert.deepEqual(await (await fetch('https://api.test/a')).json(), { n: 2 });
+  }],
+
+  ['matches exact URLs, prefixes, regular expressions, predicates and methods', async () => {
+    const fetch = createMockFetch({
+      routes: [
+        { match: 'https://api.test/exact', outcomes: [{ status: 201 }] },
+        { match: 'https://api.test/items/*', outcomes: [{ status: 202 }] },
+        { match: /\/search\?q=/, outcomes: [{ status: 203 }] },
+        { match: 'https://api.test/write', method: 'POST', outcomes: [{ status: 204 }] },
+        { match: url => url.endsWith('.json'), outcomes: [{ status: 206 }] }
+      ]
+    });
+    const status = async (url: string, init?: RequestInit) => (await fetch(url, init)).status;
+    assert.equal(await status('https://api.test/exact'), 201);
+    assert.equal(await status('https://api.test/items/7'), 202);
+    assert.equal(await status('https://api.test/search?q=x'), 203);
+    assert.equal(await status('https://api.test/write', { method: 'post' }), 204);
+    assert.equal(await status('https://api.test/write'), 404);
+    assert.equal(await status('https://api.test/data.json'), 206);
+  }],
+
+  ['rejects like fetch for network errors, with the code as cause', async () => {
+    const fetch = createMockFetch({ routes: [{ match: 'https://api.test/a', outcomes: [{ networkError: 'ECONNRESET' }] }] });
+    const error = await fetch('https://api.test/a').catch((e: unknown) => e);
+    assert.ok(error instanceof TypeError);
+    assert.equal(error.message, 'fetch failed');
+    assert.equal((error as { cause?: { code?: string } }).cause?.code, 'ECONNRESET');
+  }],
+
+  ['produces the same random sequence for the same seed', async () => {
+    const run = async (seed: number) => {
+      const fetch = createMockFetch({ seed, routes: [{ match: 'https://api.test/a', random: { failureRate: 0.5 } }] });
+      const statuses: number[] = [];
+      for (let i = 0; i < 20; i++) {
+        statuses.push((await fetch('https://api.test/a')).status);
+      }
+      fetch.reset();
+      const replay = (await fetch('https://api.test/a')).status;
+      return { statuses, replay };
+    };
+    const first = await run(42);
+    assert.deepEqual((await run(42)).statuses, first.statuses);
+    assert.notDeepEqual((await run(7)).statuses, first.statuses);
+    assert.ok(first.statuses.includes(500) && first.statuses.includes(200));
+    assert.equal(first.replay, first.statuses[0]);
+  }],
+
+  ['hangs until the request is aborted', async () => {
+    const fetch = createMockFetch({ routes: [{ match: 'https://api.test/a', outcomes: [{ hang: true }] }] });
+    const controller = new AbortController();
+    const pending = fetch('https://api.test/a', { signal: controller.signal }).catch(e => e);
+    controller.abort(new Error('gave up'));
+    assert.equal((await pending).message, 'gave up');
+  }],
+
+  ['waits for delays on the given clock', async () => {
+    const clock = new VirtualClock();
+    const fetch = createMockFetch({ clock, routes: [{ match: 'https://api.test/a', outcomes: [{ body: 'late', delay: 5000 }] }] });
+    let settled = false;
+    const pending = fetch('https://api.test/a').then(response => {
+      settled = true;
+      return response.text();
+    });
+    await clock.advance(4999);
+    assert.equal(settled, false);
+    await clock.advance(1);
+    assert.equal(await pending, 'late');
+  }],
+
+  ['records every call with its route call number', async () => {
+    const fetch = createMockFetch({ routes: [{ match: 'https://api.test/a', outcomes: [{ status: 200 }] }] });
+    await fetch('https://api.test/a', { method: 'PUT', headers: { 'X-Id': '1' }, body: 'x' });
+    await fetch('https://api.test/a');
+    await fetch('https://api.test/unknown');
+    assert.deepEqual(fetch.calls.map(call => [call.method, call.routeCall]), [['PUT', 1], ['GET', 2], ['GET', 0]]);
+    assert.equal(fetch.calls[0].headers.get('x-id'), '1');
+    assert.equal(fetch.calls[0].body, 'x');
+    assert.equal(fetch.callsTo('https://api.test/a').length, 2);
+    assert.equal(fetch.callsTo(/unknown/).length, 1);
+    fetch.reset();
+    assert.equal(fetch.calls.length, 0);
+  }]
+]);
@@ -0,0 +1,78 @@
+import assert from 'node:assert/strict';
+import {
+  fetchWithRetry,
+  createMockFetch,
+  silentLogger,
+  VirtualClock,
+  MaxRetriesError,
+  NetworkError,
+  DnsError,
+  ConnectionError,
+  TlsError,
+  TimeoutError
+} from '../../src/index';
+import { classifyFetchError } from '../../src/networkErrors';
+import { runChecks } from './check';
+
+/**
+ * Fetches a URL whose first attempt fails with the given error code and whose second succeeds
+ */
+const failOnceWith = async (code: string) => {
+  const clock = new VirtualClock();
+  const fetch = createMockFetch({ clock, routes: [{ match: 'https://api.test/a', outcomes: [{ networkError: code }, { body: { ok: true } }] }] });
+  const onRetryErrors: Error[] = [];
+
+  const pending = fetchWithRetry('https://api.test/a', {}, {
+    fetch,
+    clock,
+    logger: silentLogger,
+    onRetry: ({ error }) => { onRetryErrors.push(error); }
+  }).catch(e => e);
+  await clock.runAll();
+
+  return { outcome: await pending, onRetryErrors, fetch };
+};
+
+runChecks('network errors', [
+  ['classifies failed lookups as DnsError and retries them', async () => {
+    const { outcome, onRetryErrors } = await failOnceWith('ENOTFOUND');
+
+    assert.equal(outcome.attempts, 2);
+    assert.ok(onRetryErrors[0] instanceof DnsError);
+    assert.equal((onRetryErrors[0] as DnsError).code, 'ENOTFOUND');
+  }],
+
+  ['classifies certificate failures as TlsError and does not retry them', async () => {
+    const { outcome, fetch } = await failOnceWith('CERT_HAS_EXPIRED');
+
+    assert.ok(outcome instanceof MaxRetriesError);
+    assert.equal(outcome.stopReason, 'non-retryable');
+    assert.ok(outcome.lastError instanceof TlsError);
+    assert.equal(outcome.lastError.code, 'CERT_HAS_EXPIRED');
+    assert.equal(fetch.calls.length, 1);
+  }],
+
+  ['classifies connect timeouts inside fetch as socket timeouts and retries them', async () => {
+    const { outcome, onRetryErrors } = await failOnceWith('UND_ERR_CONNECT_TIMEOUT');
+
+    assert.equal(outcome.attempts, 2);
+    const error = onRetryErrors[0];
+    assert.ok(error instanceof TimeoutError);
+    assert.equal(error.kind, 'socket');
+    assert.equal(error.timeout, undefined);
+    assert.equal(error.code, 'UND_ERR_CONNECT_TIMEOUT');
+  }],
+
+  ['finds the code behind fetch\'s TypeError and leaves other errors alone', () => {
+    // Every address of the host failed: the codes sit in an AggregateError under `cause`
+    const refused = Object.assign(new TypeError('fetch failed'), { cause: { errors: [{ code: 'ECONNREFUSED' }] } });
+    assert.ok(classifyFetchError(refused, 'https://api.test/') instanceof ConnectionError);
+
+    const unknown = classifyFetchError(new TypeError('fetch failed'), 'https://api.test/');
+    assert.ok(unknown instanceof NetworkError);
+    assert.equal(unknown.constructor, NetworkError);
+
+    const fromUserCode = new TypeError('x is not a function');
+    assert.strictEqual(classifyFetchError(fromUserCode, 'https://api.test/'), fromUserCode);
+  }]
+]);
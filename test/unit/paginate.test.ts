@@ -0,0 +1,137 @@
+import assert from 'node:assert/strict';
+import {
+  paginateWithRetry,
+  linkHeaderPagination,
+  cursorPagination,
+  offsetPagination,
+  createMockFetch,
+  silentLogger,
+  PaginationError,
+  MaxRetriesError,
+  MockRoute
+} from '../../src/index';
+import { runChecks } from './check';
+
+/**
+ * Retry configuration for a mock API, with short real delays
+ */
+const retryConfigFor = (routes: MockRoute[]) => {
+  const fetch = createMockFetch({ routes });
+  return { fetch, retryConfig: { fetch, logger: silentLogger, baseDelay: 1, maxRetries: 1 } };
+};
+
+/**
+ * Drains an async iterable into an array
+ */
+const collect = async <I>(iterable: AsyncIterable<I>): Promise<I[]> => {
+  const items: I[] = [];
+  for await (const item of iterable) {
+    items.push(item);
+  }
+  return items;
+};
+
+runChecks('pagination', [
+  ['follows Link rel="next" headers, resolving relative targets', async () => {
+    const { retryConfig } = retryConfigFor([
+      { match: 'https://api.test/repos', outcomes: [{ body: [1, 2], headers: { Link: '<https://api.test/repos?page=2>; rel="next", <https://api.test/repos?page=3>; rel="last"' } }] },
+      { match: 'https://api.test/repos?page=2', outcomes: [{ body: [3, 4], headers: { Link: '</repos?page=3>; rel="next"' } }] },
+      { match: 'https://api.test/repos?page=3', outcomes: [{ body: [5] }] }
+    ]);
+
+    assert.deepEqual(await collect(paginateWithRetry('https://api.test/repos', { strategy: linkHeaderPagination(), retryConfig })), [1, 2, 3, 4, 5]);
+  }],
+
+  ['sends the cursor token from the body until it runs out', async () => {
+    const { fetch, retryConfig } = retryConfigFor([
+      { match: 'https://api.test/events', outcomes: [{ body: { data: { items: ['a'] }, meta: { next: 'c2' } } }] },
+      { match: 'https://api.test/events?after=c2', outcomes: [{ body: { data: { items: ['b'] }, meta: { next: null } } }] }
+    ]);
+    const strategy = cursorPagination({ itemsPath: 'data.items', cursorPath: 'meta.next', param: 'after' });
+
+    assert.deepEqual(await collect(paginateWithRetry('https://api.test/events', { strategy, retryConfig })), ['a', 'b']);
+    assert.equal(fetch.calls.length, 2);
+  }],
+
+  ['advances the offset and stops on a short page or the reported total', async () => {
+    const { fetch, retryConfig } = retryConfigFor([
+      { match: 'https://api.test/users', outcomes: [{ body: { total: 5, users: [1, 2] } }] },
+      { match: 'https://api.test/users?offset=2&limit=2', outcomes: [{ body: { total: 5, users: [3, 4] } }] },
+      { match: 'https://api.test/users?offset=4&limit=2', outcomes: [{ body: { total: 5, users: [5] } }] }
+    ]);
+
+    const short = offsetPagination({ limit: 2, itemsPath: 'users' });
+    assert.deepEqual(await collect(paginateWithRetry('https://api.test/users', { strategy: short, retryConfig })), [1, 2, 3, 4, 5]);
+
+    const { fetch: counted, retryConfig: countedConfig } = retryConfigFor([
+      { match: 'https://api.test/users', outcomes: [{ body: { total: 4, users: [1, 2] } }] },
+      { match: 'https://api.test/users?offset=2&limit=2', outcomes: [{ body: { total: 4, users: [3, 4] } }] }
+    ]);
+    const withTotal = offsetPagination({ limit: 2, itemsPath: 'users', totalPath: 'total' });
+    const pages = await collect(paginateWithRetry('https://api.test/users', { strategy: withTotal, retryConfig: countedConfig, mode: 'pages' }));
+    assert.deepEqual(pages.map(page => [page.index, page.items, page.next]), [
+      [0, [1, 2], 'https://api.test/users?offset=2&limit=2'],
+      [1, [3, 4], undefined]
+    ]);
+    assert.equal(counted.calls.length, 2);
+    assert.equal(fetch.calls.length, 3);
+  }],
+
+  ['stops at maxItems, cutting the last page short, and fetches lazily', async () => {
+    const { fetch, retryConfig } = retryConfigFor([
+      { match: 'https://api.test/n', outcomes: [{ body: { items: [1, 2, 3], next: 'x' } }] },
+      { match: 'https://api.test/n?cursor=x', outcomes: [{ body: { items: [4, 5, 6], next: 'y' } }] },
+      { match: 'https://api.test/n?cursor=y', outcomes: [{ body: { items: [7], next: null } }] }
+    ]);
+    const strategy = cursorPagination({ itemsPath: 'items', cursorPath: 'next' });
+
+    assert.deepEqual(await collect(paginateWithRetry('https://api.test/n', { strategy, retryConfig, maxItems: 4 })), [1, 2, 3, 4]);
+    assert.equal(fetch.calls.length, 2);
+
+    fetch.reset();
+    for await (const item of paginateWithRetry('https://api.test/n', { strategy, retryConfig })) {
+      if (item === 2) {
+        break;
+      }
+    }
+    assert.equal(fetch.calls.length, 1);
+  }],
+
+  ['retries each page on its own', async () => {
+    const { fetch, retryConfig } = retryConfigFor([
+      { match: 'https://api.test/p', outcomes: [{ status: 503 }, { body: { items: [1], next: '2' } }] },
+      { match: 'https://api.test/p?cursor=2', outcomes: [{ status: 502 }, { body: { items: [2], next: null } }] }
+    ]);
+    const strategy = cursorPagination({ itemsPath: 'items', cursorPath: 'next' });
+
+    const pages = await collect(paginateWithRetry('https://api.test/p', { strategy, retryConfig, mode: 'pages' }));
+
+    assert.deepEqual(pages.map(page => page.result.attempts), [2, 2]);
+    assert.equal(fetch.calls.length, 4);
+  }],
+
+  ['reports where to resume when a page fails', async () => {
+    const { fetch, retryConfig } = retryConfigFor([
+      { match: 'https://api.test/r', outcomes: [{ body: { items: [1, 2], next: '2' } }] },
+      { match: 'https://api.test/r?cursor=2', outcomes: [{ status: 503 }, { status: 503 }, { body: { items: [3], next: null } }] }
+    ]);
+    const strategy = cursorPagination({ itemsPath: 'items', cursorPath: 'next' });
+    const seen: unknown[] = [];
+
+    const error = await (async () => {
+      for await (const item of paginateWithRetry('https://api.test/r', { strategy, retryConfig })) {
+        seen.push(item);
+      }
+    })().catch(e => e);
+
+    assert.ok(error instanceof PaginationError);
+    assert.equal(error.cursor, 'https://api.test/r?cursor=2');
+    assert.equal(error.pages, 1);
+    assert.equal(error.items, 2);
+    assert.ok(error.originalError instanceof MaxRetriesError);
+
+    seen.push(...await collect(paginateWithRetry(error.cursor, { strategy, retryConfig })));
+    assert.deepEqual(seen, [1, 2, 3]);
+    assert.equal(fetch.callsTo('https://api.test/r').length, 1);
+  }]
+]);
@@ -0,0 +1,113 @@
+import assert from 'node:assert/strict';
+import { createFetcher, createMockFetch, silentLogger, VirtualClock, RateLimiter, AbortError, MaxRetriesError, TimeoutError, TokenBucketOptions } from '../../src/index';
+import { runChecks } from './check';
+
+/**
+ * Starts one acquire per URL at the current time and returns when each was granted
+ */
+const grantTimes = async (limiter: RateLimiter, clock: VirtualClock, urls: string[]) => {
+  const times: number[] = [];
+  const waits = urls.map((url, i) => limiter.acquire(url).then(() => {
+    times[i] = clock.now();
+  }));
+  await clock.runAll();
+  await Promise.all(waits);
+  return times;
+};
+
+runChecks('rate limiter', [
+  ['allows a burst up to the limit, then spaces requests evenly', async () => {
+    const clock = new VirtualClock();
+    const limiter = new RateLimiter({ limit: 2, interval: 1000 }, clock);
+    const urls = Array.from({ length: 5 }, () => 'https://a.test/');
+
+    assert.deepEqual(await grantTimes(limiter, clock, urls), [0, 0, 500, 1000, 1500]);
+  }],
+
+  ['refills over time up to the limit', async () => {
+    const clock = new VirtualClock();
+    const limiter = new RateLimiter({ limit: 4, interval: 1000 }, clock);
+    await grantTimes(limiter, clock, ['x', 'x', 'x', 'x']);
+    assert.equal(limiter.available(0, 'x'), 0);
+
+    await clock.advance(500);
+    assert.equal(limiter.available(0, 'x'), 2);
+    await clock.advance(5000);
+    assert.equal(limiter.available(0, 'x'), 4);
+  }],
+
+  ['keeps a bucket per host or per key', async () => {
+    const clock = new VirtualClock();
+    const perHost = new RateLimiter({ limit: 1, interval: 1000, scope: 'host' }, clock);
+    assert.deepEqual(await grantTimes(perHost, clock, ['https://a.test/1', 'https://b.test/1', 'https://a.test/2']), [0, 0, 1000]);
+
+    const byTenant: TokenBucketOptions = { limit: 1, interval: 1000, scope: 'key', key: url => new URL(url).searchParams.get('tenant') ?? '' };
+    const perKey = new RateLimiter(byTenant, new VirtualClock());
+    await perKey.acquire('https://a.test/?tenant=1');
+    assert.equal(perKey.available(0, 'https://b.test/?tenant=1'), 0);
+    assert.equal(perKey.available(0, 'https://a.test/?tenant=2'), 1);
+  }],
+
+  ['waits for the strictest of several buckets', async () => {
+    const clock = new VirtualClock();
+    const limiter = new RateLimiter([{ limit: 10, interval: 1000 }, { limit: 3, interval: 60000 }], clock);
+
+    assert.deepEqual(await grantTimes(limiter, clock, ['x', 'x', 'x', 'x']), [0, 0, 0, 20000]);
+  }],
+
+  ['gives the token back when a waiting request is aborted', async () => {
+    const clock = new VirtualClock();
+    const limiter = new RateLimiter({ limit: 1, interval: 1000 }, clock);
+    await limiter.acquire('x');
+    const controller = new AbortController();
+
+    const aborted = limiter.acquire('x', {}, controller.signal).catch(e => e);
+    controller.abort();
+    assert.ok((await aborted) instanceof AbortError);
+    assert.equal(clock.pending, 0);
+    assert.deepEqual(await grantTimes(limiter, clock, ['x']), [1000]);
+  }],
+
+  ['lowers buckets to the quota the server reports', async () => {
+    const clock = new VirtualClock();
+    const limiter = new RateLimiter({ limit: 10, interval: 1000 }, clock);
+
+    limiter.update('x', {}, new Headers({ 'RateLimit-Remaining': '3' }));
+    assert.equal(limiter.available(0, 'x'), 3);
+    limiter.update('x', {}, new Headers({ 'RateLimit-Remaining': '50' }));
+    assert.equal(limiter.available(0, 'x'), 3);
+
+    limiter.update('x', {}, new Headers({ 'X-RateLimit-Remaining': '0', 'X-RateLimit-Reset': '5' }));
+    assert.deepEqual(await grantTimes(limiter, clock, ['x']), [5100]);
+  }],
+
+  ['makes each attempt of a fetcher wait for a token', async () => {
+    const clock = new VirtualClock();
+    const fetch = createMockFetch({ clock, routes: [{ match: 'https://api.test/*', outcomes: [{ status: 503 }, { body: {} }] }] });
+    const api = createFetcher({ fetch, clock, logger: silentLogger, baseDelay: 10, rateLimit: new RateLimiter({ limit: 1, interval: 1000 }, clock) });
+
+    const calls = Promise.all([api('https://api.test/a'), api('https://api.test/b')]);
+    await clock.runAll();
+    await calls;
+
+    assert.deepEqual(fetch.calls.map(call => call.timestamp), [0, 1000, 2000]);
+  }],
+
+  ['stops waiting for a token when the deadline passes', async () => {
+    const clock = new VirtualClock();
+    const fetch = createMockFetch({ clock, routes: [{ match: 'https://api.test/*', outcomes: [{ body: {} }] }] });
+    const api = createFetcher({ fetch, clock, logger: silentLogger, deadline: 1000, rateLimit: new RateLimiter({ limit: 1, interval: 60000 }, clock) });
+
+    const first = api('https://api.test/a');
+    const second = api('https://api.test/b').catch(e => e);
+    await clock.runAll();
+    await first;
+    const error = await second;
+
+    assert.ok(error instanceof MaxRetriesError);
+    assert.ok(error.lastError instanceof TimeoutError);
+    assert.equal(error.lastError.kind, 'deadline');
+    assert.equal(clock.now(), 1000);
+    assert.equal(fetch.calls.length, 1);
+  }]
+]);
@@ -0,0 +1,99 @@
+import assert from 'node:assert/strict';
+import { fetchWithRetry, createMockFetch, silentLogger, MaxRetriesError, HttpError } from '../../src/index';
+import { runChecks } from './check';
+
+const URL = 'https://api.test/upload';
+
+/**
+ * A single-use body: a stream of the given chunks
+ */
+const streamOf = (...chunks: string[]) => new ReadableStream<Uint8Array>({
+  start(controller) {
+    chunks.forEach(chunk => controller.enqueue(new TextEncoder().encode(chunk)));
+    controller.close();
+  }
+});
+
+/**
+ * Text of a recorded request body
+ */
+const textOf = async (body: unknown): Promise<string> => new Response(body as BodyInit).text();
+
+const put = (body: unknown): RequestInit => ({ method: 'PUT', body, duplex: 'half' } as RequestInit);
+
+const failOnce = () => createMockFetch({ routes: [{ match: URL, outcomes: [{ status: 503 }, { body: { ok: true } }] }] });
+
+const auth = { getToken: () => 'stale', refresh: async () => 'fresh' };
+
+const unauthorizedOnce = () => createMockFetch({ routes: [{ match: URL, outcomes: [{ status: 401 }, { body: { ok: true } }] }] });
+
+runChecks('request bodies', [
+  ['buffers a stream body and resends it on retry', async () => {
+    const fetch = failOnce();
+    const result = await fetchWithRetry(URL, put(streamOf('hello ', 'world')), { fetch, logger: silentLogger, baseDelay: 1 });
+    assert.equal(result.attempts, 2);
+    assert.deepEqual(await Promise.all(fetch.calls.map(call => textOf(call.body))), ['hello world', 'hello world']);
+  }],
+
+  ['buffers async iterable bodies', async () => {
+    async function* chunks() {
+      yield 'ab';
+      yield new TextEncoder().encode('cd');
+    }
+    const fetch = failOnce();
+    await fetchWithRetry(URL, put(chunks()), { fetch, logger: silentLogger, baseDelay: 1 });
+    assert.deepEqual(await Promise.all(fetch.calls.map(call => textOf(call.body))), ['abcd', 'abcd']);
+  }],
+
+  ['resends FormData and Blob bodies unchanged', async () => {
+    const form = new FormData();
+    form.append('file', new Blob(['contents']), 'a.txt');
+    for (const body of [form, new Blob(['blob'])]) {
+      const fetch = failOnce();
+      await fetchWithRetry(URL, put(body), { fetch, logger: silentLogger, baseDelay: 1 });
+      assert.deepEqual(fetch.calls.map(call => call.body), [body, body]);
+    }
+  }],
+
+  ['sends a stream larger than maxBufferedBody once and stops', async () => {
+    const fetch = failOnce();
+    const error = await fetchWithRetry(URL, put(streamOf('0123456789', 'abcdef')), { fetch, logger: silentLogger, maxBufferedBody: 8 }).catch(e => e);
+    assert.ok(error instanceof MaxRetriesError);
+    assert.equal(error.stopReason, 'body-not-replayable');
+    assert.equal(fetch.calls.length, 1);
+    assert.equal(await textOf(fetch.calls[0].body), '0123456789abcdef');
+  }],
+
+  ["refuses to retry with streamBody: 'refuse'", async () => {
+    const fetch = failOnce();
+    const error = await fetchWithRetry(URL, put(streamOf('x')), { fetch, logger: silentLogger, streamBody: 'refuse' }).catch(e => e);
+    assert.equal(error.stopReason, 'body-not-replayable');
+    assert.match(error.message, /cannot be sent again/);
+    assert.equal(fetch.calls.length, 1);
+  }],
+
+  ['builds a fresh body per attempt with bodyFactory', async () => {
+    const fetch = failOnce();
+    let built = 0;
+    await fetchWithRetry(URL, put(undefined), { fetch, logger: silentLogger, baseDelay: 1, bodyFactory: () => streamOf(`body ${++built}`) });
+    assert.deepEqual(await Promise.all(fetch.calls.map(call => textOf(call.body))), ['body 1', 'body 2']);
+  }],
+
+  ['replays a buffered stream body after a token refresh', async () => {
+    const fetch = unauthorizedOnce();
+    const result = await fetchWithRetry(URL, put(streamOf('payload')), { fetch, logger: silentLogger, auth, maxRetries: 0 });
+    assert.deepEqual(result.data, { ok: true });
+    assert.deepEqual(fetch.calls.map(call => call.headers.get('authorization')), ['Bearer stale', 'Bearer fresh']);
+    assert.deepEqual(await Promise.all(fetch.calls.map(call => textOf(call.body))), ['payload', 'payload']);
+  }],
+
+  ['does not replay a consumed stream body after a 401', async () => {
+    const fetch = unauthorizedOnce();
+    const error = await fetchWithRetry(URL, put(streamOf('payload')), { fetch, logger: silentLogger, auth, streamBody: 'refuse' }).catch(e => e);
+    assert.ok(error instanceof MaxRetriesError);
+    assert.equal(error.stopReason, 'body-not-replayable');
+    assert.ok(error.lastError instanceof HttpError);
+    assert.equal(error.lastError.status, 401);
+    assert.equal(fetch.calls.length, 1);
+  }]
+]);
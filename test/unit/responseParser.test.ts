@@ -0,0 +1,110 @@
+import assert from 'node:assert/strict';
+import {
+  fetchWithRetry,
+  createMockFetch,
+  silentLogger,
+  VirtualClock,
+  MaxRetriesError,
+  ResponseParseError,
+  ValidationError,
+  MockResponseOutcome,
+  RetryConfig
+} from '../../src/index';
+import { runChecks } from './check';
+
+/**
+ * Fetches one scripted response (or a sequence) with the given config
+ */
+const fetchOnce = async (outcomes: MockResponseOutcome[], config: Partial<RetryConfig> = {}, init: RequestInit = {}) => {
+  const clock = new VirtualClock();
+  const fetch = createMockFetch({ clock, routes: [{ match: 'https://api.test/a', outcomes }] });
+  const pending = fetchWithRetry('https://api.test/a', init, { fetch, clock, logger: silentLogger, ...config }).catch((error: unknown) => error);
+  await clock.runAll();
+  return { outcome: await pending, calls: fetch.calls.length };
+};
+
+/**
+ * The data of a successful call
+ */
+const dataOf = async (outcome: MockResponseOutcome, config: Partial<RetryConfig> = {}, init: RequestInit = {}) => {
+  const { outcome: result } = await fetchOnce([outcome], config, init);
+  assert.ok(!(result instanceof Error), String(result));
+  return (result as { data: unknown }).data;
+};
+
+const zodLike = {
+  parse: (data: unknown) => {
+    if (typeof (data as { id?: unknown })?.id !== 'number') {
+      throw new Error('id: Expected number');
+    }
+    return data as { id: number };
+  }
+};
+
+runChecks('response parsing and validation', [
+  ['reads the body as the requested type', async () => {
+    assert.deepEqual(await dataOf({ body: { a: 1 } }), { a: 1 });
+    assert.equal(await dataOf({ body: 'a,b\n1,2' }, { responseType: 'text' }), 'a,b\n1,2');
+
+    const buffer = await dataOf({ body: 'abc' }, { responseType: 'arrayBuffer' });
+    assert.ok(buffer instanceof ArrayBuffer);
+    assert.equal(buffer.byteLength, 3);
+
+    const blob = await dataOf({ body: 'abc' }, { responseType: 'blob' });
+    assert.ok(blob instanceof Blob);
+    assert.equal(await blob.text(), 'abc');
+
+    const stream = await dataOf({ body: 'abc' }, { responseType: 'stream' });
+    assert.ok(stream instanceof ReadableStream);
+    assert.equal(await new Response(stream).text(), 'abc');
+
+    const response = await dataOf({ status: 201, body: 'abc' }, { responseType: 'response' });
+    assert.ok(response instanceof Response);
+    assert.equal(response.status, 201);
+    assert.equal(response.bodyUsed, false);
+  }],
+
+  ['picks the reader from Content-Type in auto mode', async () => {
+    const auto = { responseType: 'auto' } as const;
+    assert.deepEqual(await dataOf({ body: '{"a":1}', headers: { 'Content-Type': 'application/problem+json; charset=utf-8' } }, auto), { a: 1 });
+    assert.equal(await dataOf({ body: '<a/>', headers: { 'Content-Type': 'application/atom+xml' } }, auto), '<a/>');
+    assert.equal(await dataOf({ body: 'plain' }, auto), 'plain');
+    assert.ok(await dataOf({ body: 'PNG', headers: { 'Content-Type': 'image/png' } }, auto) instanceof ArrayBuffer);
+  }],
+
+  ['returns undefined for bodiless responses instead of failing to parse', async () => {
+    assert.equal(await dataOf({ status: 204 }), undefined);
+    assert.equal(await dataOf({ body: 'ignored' }, {}, { method: 'HEAD' }), undefined);
+  }],
+
+  ['fails with ResponseParseError on malformed JSON, without retrying by default', async () => {
+    const { outcome, calls } = await fetchOnce([{ body: '{"a":' }]);
+
+    assert.ok(outcome instanceof MaxRetriesError);
+    assert.equal(outcome.stopReason, 'non-retryable');
+    assert.ok(outcome.lastError instanceof ResponseParseError);
+    assert.equal(outcome.lastError.responseType, 'json');
+    assert.equal(calls, 1);
+  }],
+
+  ['retries invalid responses when retryOnInvalidResponse is set', async () => {
+    const { outcome, calls } = await fetchOnce([{ body: 'not json' }, { body: { a: 1 } }], { retryOnInvalidResponse: true });
+
+    assert.deepEqual((outcome as { data: unknown }).data, { a: 1 });
+    assert.equal(calls, 2);
+  }],
+
+  ['narrows data with a validator function or a zod-style schema', async () => {
+    assert.deepEqual(await dataOf({ body: { id: 1, extra: true } }, { validate: zodLike }), { id: 1, extra: true });
+    assert.equal(await dataOf({ body: { id: 7 } }, { validate: data => (data as { id: number }).id * 2 }), 14);
+  }],
+
+  ['fails with ValidationError carrying what the validator threw', async () => {
+    const { outcome, calls } = await fetchOnce([{ body: { id: 'x' } }], { validate: zodLike });
+
+    assert.ok(outcome instanceof MaxRetriesError);
+    assert.ok(outcome.lastError instanceof ValidationError);
+    assert.equal((outcome.lastError.originalError as Error).message, 'id: Expected number');
+    assert.equal(calls, 1);
+  }]
+]);
@@ -0,0 +1,74 @@
+import assert from 'node:assert/strict';
+import { fetchWithRetry, createMockFetch, silentLogger, VirtualClock, MaxRetriesError, RetryConfig } from '../../src/index';
+import { parseRetryAfter, parseRateLimitReset, getServerRetryDelay } from '../../src/retryAfter';
+import { runChecks } from './check';
+
+const NOW = Date.parse('2026-01-01T00:00:00Z');
+
+/**
+ * Answers 429 with the given headers once, then 200; returns the delay
+ * between the two requests and how the call ended
+ */
+const retryAfterDelay = async (headers: Record<string, string>, config: Partial<RetryConfig> = {}) => {
+  const clock = new VirtualClock(NOW);
+  const fetch = createMockFetch({
+    clock,
+    routes: [{ match: 'https://api.test/a', outcomes: [{ status: 429, headers }, { body: {} }] }]
+  });
+
+  const pending = fetchWithRetry('https://api.test/a', {}, { fetch, clock, logger: silentLogger, baseDelay: 100, ...config })
+    .catch((error: unknown) => error);
+  await clock.runAll();
+  const outcome = await pending;
+
+  const [first, second] = fetch.calls;
+  return { delay: second ? second.timestamp - first.timestamp : undefined, outcome };
+};
+
+runChecks('Retry-After', [
+  ['parses delta-seconds and HTTP dates', () => {
+    assert.equal(parseRetryAfter('120', NOW), 120000);
+    assert.equal(parseRetryAfter(' 1.5 ', NOW), 1500);
+    assert.equal(parseRetryAfter('Thu, 01 Jan 2026 00:00:30 GMT', NOW), 30000);
+    assert.equal(parseRetryAfter('Wed, 31 Dec 2025 23:59:00 GMT', NOW), 0);
+    assert.equal(parseRetryAfter('soon', NOW), undefined);
+    assert.equal(parseRetryAfter('', NOW), undefined);
+    assert.equal(parseRetryAfter(null, NOW), undefined);
+  }],
+
+  ['parses rate-limit resets as delta or epoch seconds', () => {
+    assert.equal(parseRateLimitReset('30', NOW), 30000);
+    assert.equal(parseRateLimitReset(String(NOW / 1000 + 45), NOW), 45000);
+    assert.equal(parseRateLimitReset('-5', NOW), undefined);
+  }],
+
+  ['prefers Retry-After and only reads reset headers when the quota is out', () => {
+    const headers = (init: Record<string, string>) => new Headers(init);
+    assert.equal(getServerRetryDelay(503, headers({ 'Retry-After': '2', 'RateLimit-Reset': '9' }), NOW), 2000);
+    assert.equal(getServerRetryDelay(429, headers({ 'X-RateLimit-Reset': '9' }), NOW), 9000);
+    assert.equal(getServerRetryDelay(503, headers({ 'RateLimit-Reset': '9' }), NOW), undefined);
+    assert.equal(getServerRetryDelay(503, headers({ 'RateLimit-Remaining': '0', 'RateLimit-Reset': '9' }), NOW), 9000);
+  }],
+
+  ['waits as long as the server asks instead of the backoff delay', async () => {
+    assert.equal((await retryAfterDelay({ 'Retry-After': '3' })).delay, 3000);
+    assert.equal((await retryAfterDelay({ 'Retry-After': 'Thu, 01 Jan 2026 00:00:07 GMT' })).delay, 7000);
+    assert.equal((await retryAfterDelay({ 'X-RateLimit-Reset': String(NOW / 1000 + 4) })).delay, 4000);
+  }],
+
+  ['caps the server delay at maxDelay', async () => {
+    assert.equal((await retryAfterDelay({ 'Retry-After': '60' }, { maxDelay: 5000 })).delay, 5000);
+  }],
+
+  ['gives up when the server delay is over maxRetryAfter', async () => {
+    const { delay, outcome } = await retryAfterDelay({ 'Retry-After': '60' }, { maxRetryAfter: 10000 });
+    assert.equal(delay, undefined);
+    assert.ok(outcome instanceof MaxRetriesError);
+    assert.equal(outcome.stopReason, 'non-retryable');
+  }],
+
+  ['uses the backoff delay when respectRetryAfter is off or no hint is given', async () => {
+    assert.equal((await retryAfterDelay({ 'Retry-After': '3' }, { respectRetryAfter: false })).delay, 100);
+    assert.equal((await retryAfterDelay({ 'Retry-After': 'later' })).delay, 100);
+  }]
+]);
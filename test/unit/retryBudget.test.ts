@@ -0,0 +1,60 @@
+import assert from 'node:assert/strict';
+import { createFetcher, createMockFetch, silentLogger, VirtualClock, RetryBudget, MaxRetriesError, HttpError } from '../../src/index';
+import { runChecks } from './check';
+
+runChecks('retry budget', [
+  ['allows retries up to the ratio of first attempts plus the floor', () => {
+    const budget = new RetryBudget({ ratio: 0.1, window: 10000, minRetriesPerSecond: 0.1, clock: new VirtualClock() });
+    for (let i = 0; i < 30; i++) {
+      budget.recordRequest();
+    }
+    // 30 * 0.1 + 0.1 * 10s = 4
+    assert.deepEqual(budget.stats(), { requests: 30, retries: 0, available: 4 });
+
+    const granted = Array.from({ length: 6 }, () => budget.tryRetry());
+    assert.deepEqual(granted, [true, true, true, true, false, false]);
+    assert.deepEqual(budget.stats(), { requests: 30, retries: 4, available: 0 });
+  }],
+
+  ['forgets attempts as they slide out of the window', async () => {
+    const clock = new VirtualClock();
+    const budget = new RetryBudget({ ratio: 1, window: 10000, minRetriesPerSecond: 0, clock });
+    budget.recordRequest();
+    await clock.advance(5000);
+    budget.recordRequest();
+    assert.equal(budget.tryRetry(), true);
+    assert.equal(budget.stats().available, 1);
+
+    // The window moves in tenths, so the first slice leaves once all of it is 10s old
+    await clock.advance(5999);
+    assert.equal(budget.stats().requests, 2);
+    await clock.advance(1);
+    assert.deepEqual(budget.stats(), { requests: 1, retries: 1, available: 0 });
+    await clock.advance(5000);
+    assert.deepEqual(budget.stats(), { requests: 0, retries: 0, available: 0 });
+  }],
+
+  ['ends calls whose retry is denied with the budget-denied stop reason', async () => {
+    const clock = new VirtualClock();
+    const fetch = createMockFetch({ clock, routes: [{ match: 'https://api.test/*', outcomes: [{ status: 503 }] }] });
+    const retryBudget = new RetryBudget({ ratio: 0.5, minRetriesPerSecond: 0, clock });
+    // Two fetchers sharing one budget
+    const config = { fetch, clock, retryBudget, logger: silentLogger, baseDelay: 10, maxRetries: 3 };
+    const first = createFetcher(config);
+    const second = createFetcher(config);
+
+    const calls = Promise.all([first('https://api.test/a').catch(e => e), second('https://api.test/b').catch(e => e)]);
+    await clock.runAll();
+    const errors = await calls;
+
+    // Two first attempts earn one retry between them
+    assert.equal(fetch.calls.length, 3);
+    for (const error of errors) {
+      assert.ok(error instanceof MaxRetriesError);
+      assert.equal(error.stopReason, 'budget-denied');
+      assert.ok(error.lastError instanceof HttpError);
+      assert.match(error.message, /budget/i);
+    }
+    assert.deepEqual(retryBudget.stats(), { requests: 2, retries: 1, available: 0 });
+  }]
+]);
@@ -0,0 +1,28 @@
+/**
+ * Runs every unit test file.
+ * Run with: npx ts-node test/unit/run.ts
+ */
+import './retryAfter.test';
+import './timeouts.test';
+import './backoff.test';
+import './circuitBreaker.test';
+import './logger.test';
+import './responseParser.test';
+import './idempotency.test';
+import './singleFlight.test';
+import './cache.test';
+import './scheduler.test';
+import './rateLimiter.test';
+import './retryBudget.test';
+import './hedging.test';
+import './middleware.test';
+import './auth.test';
+import './mockFetch.test';
+import './fetchWithRetry.test';
+import './clock.test';
+import './instrumentation.test';
+import './paginate.test';
+import './batch.test';
+import './requestBody.test';
+import './networkErrors.test';
+import './endpoints.test';
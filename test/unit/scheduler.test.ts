@@ -0,0 +1,160 @@
+import assert from 'node:assert/strict';
+import {
+  fetchWithRetry,
+  createMockFetch,
+  silentLogger,
+  VirtualClock,
+  RequestScheduler,
+  MaxRetriesError,
+  HttpError,
+  QueueTimeoutError,
+  TimeoutError,
+  AbortError
+} from '../../src/index';
+import { runChecks } from './check';
+
+/**
+ * Lets queued grants and releases run
+ */
+const settle = () => new Promise(resolve => setImmediate(resolve));
+
+runChecks('scheduler', [
+  ['caps attempts in flight globally and per origin', async () => {
+    const scheduler = new RequestScheduler({ maxConcurrent: 3, maxConcurrentPerOrigin: 2 });
+    const granted: string[] = [];
+    const acquire = (url: string) => scheduler.acquire(url).then(release => {
+      granted.push(url);
+      return release;
+    });
+
+    const releases = [acquire('https://a.test/1'), acquire('https://a.test/2'), acquire('https://a.test/3'), acquire('https://b.test/1'), acquire('https://c.test/1')];
+    await settle();
+
+    // a.test/3 waits for its origin; b.test/1 skips past it; c.test/1 waits for the global limit
+    assert.deepEqual(granted, ['https://a.test/1', 'https://a.test/2', 'https://b.test/1']);
+    assert.deepEqual(scheduler.stats().activeByOrigin, { 'https://a.test': 2, 'https://b.test': 1 });
+    assert.equal(scheduler.stats().queued, 2);
+
+    (await releases[0])();
+    await settle();
+    assert.deepEqual(granted.slice(3), ['https://a.test/3']);
+
+    // Releasing twice frees only one slot
+    (await releases[3])();
+    (await releases[3])();
+    await settle();
+    assert.deepEqual(granted.slice(4), ['https://c.test/1']);
+    assert.equal(scheduler.stats().active, 3);
+  }],
+
+  ['grants slots by priority, first come first served within one', async () => {
+    const scheduler = new RequestScheduler({ maxConcurrent: 1 });
+    const order: string[] = [];
+    const first = await scheduler.acquire('https://a.test/');
+    const waiters = (['low', 'normal', 'high', 'normal'] as const).map((priority, i) =>
+      scheduler.acquire('https://a.test/', priority).then(release => {
+        order.push(`${priority}${i}`);
+        release();
+      })
+    );
+    assert.deepEqual(scheduler.stats().queuedByPriority, { high: 1, normal: 2, low: 1 });
+
+    first();
+    await Promise.all(waiters);
+    assert.deepEqual(order, ['high2', 'normal1', 'normal3', 'low0']);
+  }],
+
+  ['times out and aborts queued requests, and tracks wait times', async () => {
+    const clock = new VirtualClock();
+    const scheduler = new RequestScheduler({ maxConcurrent: 1, queueTimeout: 500, clock });
+    const release = await scheduler.acquire('https://a.test/');
+    const controller = new AbortController();
+
+    const timedOut = scheduler.acquire('https://a.test/').catch(e => e);
+    const aborted = scheduler.acquire('https://a.test/', 'normal', controller.signal).catch(e => e);
+    controller.abort();
+    assert.ok((await aborted) instanceof AbortError);
+    await clock.advance(500);
+    assert.ok((await timedOut) instanceof QueueTimeoutError);
+
+    const waiting = scheduler.acquire('https://a.test/');
+    await clock.advance(200);
+    release();
+    (await waiting)();
+
+    const stats = scheduler.stats();
+    assert.equal(stats.timedOut, 1);
+    assert.equal(stats.dispatched, 2);
+    assert.equal(stats.maxWait, 200);
+    assert.equal(stats.averageWait, 100);
+    assert.equal(stats.queued, 0);
+  }],
+
+  ['queues every attempt of a call for its own slot', async () => {
+    const clock = new VirtualClock();
+    const fetch = createMockFetch({
+      clock,
+      routes: [
+        { match: 'https://api.test/a', outcomes: [{ status: 503, delay: 100 }, { body: {}, delay: 100 }] },
+        { match: 'https://api.test/b', outcomes: [{ body: {}, delay: 100 }] }
+      ]
+    });
+    const scheduler = new RequestScheduler({ maxConcurrentPerOrigin: 1, clock });
+    const config = { fetch, clock, scheduler, logger: silentLogger, baseDelay: 10 };
+
+    const calls = Promise.all([fetchWithRetry('https://api.test/a', {}, config), fetchWithRetry('https://api.test/b', {}, config)]);
+    await clock.runAll();
+    await calls;
+
+    // b takes the slot a gives up after its first attempt; a's retry waits for b
+    assert.deepEqual(fetch.callsTo('https://api.test/a').map(call => call.timestamp), [0, 200]);
+    assert.deepEqual(fetch.callsTo('https://api.test/b').map(call => call.timestamp), [100]);
+    assert.equal(scheduler.stats().active, 0);
+    assert.equal(scheduler.stats().dispatched, 3);
+  }],
+
+  ['ends with MaxRetriesError and history when a retry times out in the queue', async () => {
+    const fetch = createMockFetch({
+      routes: [
+        { match: 'https://api.test/flaky', outcomes: [{ status: 503 }, { body: { ok: true } }] },
+        { match: 'https://api.test/slow', outcomes: [{ body: { ok: true }, delay: 200 }] }
+      ]
+    });
+    const scheduler = new RequestScheduler({ maxConcurrentPerOrigin: 1, queueTimeout: 30 });
+    const config = { fetch, scheduler, logger: silentLogger };
+
+    const flaky = fetchWithRetry('https://api.test/flaky', {}, { ...config, baseDelay: 20 }).catch(error => error);
+    // Takes the only slot while the flaky call backs off
+    await new Promise(resolve => setTimeout(resolve, 5));
+    const slow = fetchWithRetry('https://api.test/slow', {}, config);
+
+    const error = await flaky;
+    assert.ok(error instanceof MaxRetriesError);
+    assert.ok(error.lastError instanceof QueueTimeoutError);
+    assert.equal(error.stopReason, 'non-retryable');
+    assert.equal(error.history.length, 1);
+    assert.ok(error.history[0].error instanceof HttpError);
+    await slow;
+  }],
+
+  ['stops queueing for a slot when the deadline passes', async () => {
+    const clock = new VirtualClock();
+    const fetch = createMockFetch({ clock, routes: [{ match: 'https://api.test/*', outcomes: [{ body: {}, delay: 5000 }] }] });
+    const scheduler = new RequestScheduler({ maxConcurrent: 1, clock });
+    const config = { fetch, clock, scheduler, logger: silentLogger };
+
+    const busy = fetchWithRetry('https://api.test/busy', {}, config);
+    const queued = fetchWithRetry('https://api.test/queued', {}, { ...config, deadline: 1000 }).catch(e => e);
+    await clock.advance(1000);
+    const error = await queued;
+
+    assert.ok(error instanceof MaxRetriesError);
+    assert.ok(error.lastError instanceof TimeoutError);
+    assert.equal(error.lastError.kind, 'deadline');
+    assert.equal(scheduler.stats().queued, 0);
+    assert.equal(fetch.callsTo('https://api.test/queued').length, 0);
+
+    await clock.runAll();
+    await busy;
+  }]
+]);
@@ -0,0 +1,132 @@
+import assert from 'node:assert/strict';
+import { createFetcher, createMockFetch, fetchWithRetry, silentLogger, SingleFlight, AbortError, RetryConfig, CallEndEvent } from '../../src/index';
+import { runChecks } from './check';
+
+/**
+ * Mock API answering after 10ms with the caller's bearer token, so
+ * concurrent calls overlap and leaked results are visible
+ */
+const whoAmI = () => createMockFetch({
+  routes: ['alice', 'bob'].map(user => ({
+    match: (url: string, init: RequestInit) =>
+      url === 'https://api.test/me' && new Headers(init.headers).get('authorization') === `Bearer ${user}`,
+    outcomes: [{ body: { user }, delay: 10 }]
+  }))
+});
+
+const auth = (token: string) => ({ getToken: () => token, refresh: async () => token });
+
+runChecks('singleFlight', [
+  ['shares one request between concurrent identical calls', async () => {
+    const fetch = createMockFetch({ routes: [{ match: 'https://api.test/data', outcomes: [{ body: { n: 1 }, delay: 10 }] }] });
+    const api = createFetcher({ fetch, logger: silentLogger, singleFlight: true });
+    const [a, b] = await Promise.all([api('https://api.test/data'), api('https://api.test/data')]);
+    assert.equal(fetch.calls.length, 1);
+    assert.strictEqual(a, b);
+  }],
+
+  ['keys on method, URL and body', async () => {
+    const fetch = createMockFetch({ routes: [{ match: 'https://api.test/*', outcomes: [{ body: { n: 1 }, delay: 10 }] }] });
+    const group = new SingleFlight();
+    const call = (url: string, init: RequestInit = {}) => fetchWithRetry(url, init, { fetch, logger: silentLogger, singleFlight: group });
+    await Promise.all([
+      call('https://api.test/a'),
+      call('https://api.test/a'),
+      call('https://api.test/b'),
+      call('https://api.test/a', { method: 'POST', body: '{"x":1}' }),
+      call('https://api.test/a', { method: 'POST', body: '{"x":1}' }),
+      call('https://api.test/a', { method: 'POST', body: '{"x":2}' })
+    ]);
+    assert.equal(fetch.calls.length, 4);
+  }],
+
+  ['keeps fetchers with different auth apart', async () => {
+    const fetch = whoAmI();
+    const alice = createFetcher({ fetch, logger: silentLogger, singleFlight: true, auth: auth('alice') });
+    const bob = createFetcher({ fetch, logger: silentLogger, singleFlight: true, auth: auth('bob') });
+    const [a, b] = await Promise.all([alice('https://api.test/me'), bob('https://api.test/me')]);
+    assert.equal(fetch.calls.length, 2);
+    assert.deepEqual(a.data, { user: 'alice' });
+    assert.deepEqual(b.data, { user: 'bob' });
+  }],
+
+  ['keys on headers and result-shaping config in a shared group', async () => {
+    const fetch = whoAmI();
+    const group = new SingleFlight();
+    const call = (user: string, responseType: 'json' | 'text') =>
+      fetchWithRetry('https://api.test/me', { headers: { Authorization: `Bearer ${user}` } }, { fetch, logger: silentLogger, singleFlight: group, responseType });
+    const [a, b, c] = await Promise.all([call('alice', 'json'), call('bob', 'json'), call('alice', 'text')]);
+    assert.equal(fetch.calls.length, 3);
+    assert.deepEqual(a.data, { user: 'alice' });
+    assert.deepEqual(b.data, { user: 'bob' });
+    assert.equal(c.data, JSON.stringify({ user: 'alice' }));
+  }],
+
+  ['never shares single-use responses', async () => {
+    const fetch = createMockFetch({ routes: [{ match: 'https://api.test/data', outcomes: [{ body: { n: 1 }, delay: 10 }] }] });
+    const api = createFetcher<Response>({ fetch, logger: silentLogger, singleFlight: true, responseType: 'response' });
+    const [a, b] = await Promise.all([api('https://api.test/data'), api('https://api.test/data')]);
+    assert.equal(fetch.calls.length, 2);
+    assert.deepEqual(await a.data.json(), { n: 1 });
+    assert.deepEqual(await b.data.json(), { n: 1 });
+  }],
+
+  ['lets one caller abort without cancelling the others', async () => {
+    const fetch = createMockFetch({ routes: [{ match: 'https://api.test/data', outcomes: [{ body: { n: 1 }, delay: 20 }] }] });
+    const api = createFetcher({ fetch, logger: silentLogger, singleFlight: true });
+    const controller = new AbortController();
+    const aborted = api('https://api.test/data', { signal: controller.signal }).catch(error => error);
+    const kept = api('https://api.test/data');
+    controller.abort();
+    assert.ok((await aborted) instanceof AbortError);
+    assert.deepEqual((await kept).data, { n: 1 });
+    assert.equal(fetch.calls.length, 1);
+  }],
+
+  ['keeps calls with different timeouts, deadlines or retry limits apart', async () => {
+    const fetch = createMockFetch({ routes: [{ match: 'https://api.test/data', outcomes: [{ body: { n: 1 }, delay: 10 }] }] });
+    const group = new SingleFlight();
+    const call = (retryConfig: Partial<RetryConfig>) =>
+      fetchWithRetry('https://api.test/data', {}, { fetch, logger: silentLogger, singleFlight: group, ...retryConfig });
+    await Promise.all([call({}), call({ deadline: 1000 }), call({ timeout: 1000 }), call({ maxRetries: 0 })]);
+    assert.equal(fetch.calls.length, 4);
+  }],
+
+  ['runs each caller\'s own hooks and instrumentation', async () => {
+    const fetch = createMockFetch({
+      routes: [
+        { match: 'https://api.test/data', outcomes: [{ body: { n: 1 }, delay: 10 }] },
+        { match: 'https://api.test/down', outcomes: [{ status: 404, delay: 10 }] }
+      ]
+    });
+    const group = new SingleFlight();
+    const seen: string[] = [];
+    const ends: CallEndEvent[] = [];
+    const caller = (name: string): Partial<RetryConfig> => ({
+      fetch,
+      logger: silentLogger,
+      singleFlight: group,
+      onSuccess: () => { seen.push(`${name} success`); },
+      onGiveUp: () => { seen.push(`${name} give-up`); },
+      instrumentation: { startCall: () => ({ end: event => { ends.push(event); } }) }
+    });
+
+    await Promise.all([
+      fetchWithRetry('https://api.test/data', {}, caller('a')),
+      fetchWithRetry('https://api.test/data', {}, caller('b'))
+    ]);
+    await Promise.all([
+      fetchWithRetry('https://api.test/down', {}, caller('c')).catch(() => undefined),
+      fetchWithRetry('https://api.test/down', {}, caller('d')).catch(() => undefined)
+    ]);
+
+    assert.equal(fetch.calls.length, 2);
+    assert.deepEqual(seen, ['a success', 'b success', 'c give-up', 'd give-up']);
+    assert.deepEqual(ends.map(event => [event.outcome, event.attempts, event.shared ?? false]), [
+      ['success', 1, false],
+      ['success', 0, true],
+      ['give-up', 1, false],
+      ['give-up', 0, true]
+    ]);
+  }]
+]);
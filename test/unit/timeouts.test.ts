@@ -0,0 +1,121 @@
+import assert from 'node:assert/strict';
+import {
+  fetchWithRetry,
+  createMockFetch,
+  silentLogger,
+  VirtualClock,
+  MaxRetriesError,
+  TimeoutError,
+  AbortError,
+  HttpError,
+  MockOutcome
+} from '../../src/index';
+import { runChecks } from './check';
+
+/**
+ * Mock fetch on a fresh virtual clock that plays the given outcomes
+ */
+const setup = (outcomes: MockOutcome[]) => {
+  const clock = new VirtualClock();
+  const fetch = createMockFetch({ clock, routes: [{ match: 'https://api.test/a', outcomes }] });
+  return { clock, fetch, config: { fetch, clock, logger: silentLogger, baseDelay: 100 } };
+};
+
+runChecks('timeouts and cancellation', [
+  ['times out each attempt after timeout ms', async () => {
+    const { clock, fetch, config } = setup([{ hang: true }]);
+
+    const pending = fetchWithRetry('https://api.test/a', {}, { ...config, timeout: 1000, maxRetries: 2 }).catch(e => e);
+    await clock.runAll();
+    const error = await pending;
+
+    assert.ok(error instanceof MaxRetriesError);
+    assert.ok(error.lastError instanceof TimeoutError);
+    assert.equal(error.lastError.kind, 'attempt');
+    assert.equal(error.lastError.timeout, 1000);
+    assert.deepEqual(fetch.calls.map(call => call.timestamp), [0, 1100, 2200]);
+    assert.deepEqual(error.history.map(record => record.duration), [1000, 1000, 1000]);
+  }],
+
+  ['shortens the last attempt to fit the deadline', async () => {
+    const { clock, fetch, config } = setup([{ hang: true }]);
+
+    const pending = fetchWithRetry('https://api.test/a', {}, { ...config, timeout: 1000, deadline: 2500 }).catch(e => e);
+    await clock.runAll();
+    const error = await pending;
+
+    assert.ok(error instanceof MaxRetriesError);
+    assert.ok(error.lastError instanceof TimeoutError);
+    assert.equal(error.lastError.kind, 'deadline');
+    assert.equal(fetch.calls.length, 3);
+    assert.equal(clock.now(), 2500);
+  }],
+
+  ['does not start a retry whose backoff would pass the deadline', async () => {
+    const { clock, fetch, config } = setup([{ status: 503 }]);
+
+    const pending = fetchWithRetry('https://api.test/a', {}, { ...config, baseDelay: 400, deadline: 1000 }).catch(e => e);
+    await clock.runAll();
+    const error = await pending;
+
+    assert.ok(error instanceof MaxRetriesError);
+    assert.ok(error.lastError instanceof HttpError);
+    assert.deepEqual(fetch.calls.map(call => call.timestamp), [0, 400, 800]);
+    assert.equal(clock.now(), 800);
+  }],
+
+  ['rejects without a request when the signal is already aborted', async () => {
+    const { fetch, config } = setup([{ body: {} }]);
+    const controller = new AbortController();
+    controller.abort('stop');
+
+    const error = await fetchWithRetry('https://api.test/a', { signal: controller.signal }, config).catch(e => e);
+
+    assert.ok(error instanceof AbortError);
+    assert.equal(error.reason, 'stop');
+    assert.equal(fetch.calls.length, 0);
+  }],
+
+  ['rejects with AbortError when the first attempt is aborted', async () => {
+    const { clock, config } = setup([{ hang: true }]);
+    const controller = new AbortController();
+
+    const pending = fetchWithRetry('https://api.test/a', { signal: controller.signal }, config).catch(e => e);
+    await clock.advance(500);
+    controller.abort('user left');
+    const error = await pending;
+
+    assert.ok(error instanceof AbortError);
+    assert.equal(error.reason, 'user left');
+  }],
+
+  ['rejects with AbortError carrying the history when aborted during the backoff', async () => {
+    const { clock, fetch, config } = setup([{ status: 503 }]);
+    const controller = new AbortController();
+
+    const pending = fetchWithRetry('https://api.test/a', { signal: controller.signal }, { ...config, baseDelay: 1000 }).catch(e => e);
+    await clock.advance(500);
+    controller.abort();
+    const error = await pending;
+
+    assert.ok(error instanceof AbortError);
+    assert.equal(error.history.length, 1);
+    assert.ok(error.history[0].error instanceof HttpError);
+    assert.equal(fetch.calls.length, 1);
+    assert.equal(clock.pending, 0);
+  }],
+
+  ['rejects with AbortError carrying the history when a retry is aborted', async () => {
+    const { clock, config } = setup([{ status: 503 }, { hang: true }]);
+    const controller = new AbortController();
+
+    const pending = fetchWithRetry('https://api.test/a', { signal: controller.signal }, { ...config, baseDelay: 100 }).catch(e => e);
+    await clock.advance(500);
+    controller.abort('user left');
+    const error = await pending;
+
+    assert.ok(error instanceof AbortError);
+    assert.equal(error.reason, 'user left');
+    assert.deepEqual(error.history.map(record => [record.attempt, record.error.name]), [[1, 'HttpError'], [2, 'AbortError']]);
+  }]
+]);